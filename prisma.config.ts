@@ -0,0 +1,15 @@
+// The CLI skips loading .env when it finds this file, so load it here
+import "dotenv/config";
+import path from "node:path";
+import { PrismaLibSQL } from "@prisma/adapter-libsql";
+import { defineConfig } from "prisma/config";
+
+// `prisma db push` creates the tables through the same driver the app uses
+export default defineConfig({
+  experimental: { adapter: true },
+  schema: path.join("prisma", "schema.prisma"),
+  engine: "js",
+  async adapter() {
+    return new PrismaLibSQL({ url: process.env.DATABASE_URL ?? "" });
+  },
+});
@@ -0,0 +1,197 @@
+/**
+ * Minimal Xtream Codes panel for trying the Xtream import locally:
+ *
+ *   npm run mock:xtream
+ *
+ * then import server http://127.0.0.1:8090 with username and password
+ * "demo", with M3U_ALLOWED_HOSTS=127.0.0.1 so the app may reach it. Streams
+ * answer with a few MPEG-TS null packets.
+ */
+import http from "node:http";
+
+const PORT = Number(process.env.MOCK_XTREAM_PORT) || 8090;
+const USERNAME = "demo";
+const PASSWORD = "demo";
+
+const LIVE_CATEGORIES = [
+  { category_id: "1", category_name: "Ulusal", parent_id: 0 },
+  { category_id: "2", category_name: "Spor", parent_id: 0 },
+];
+
+const LIVE_STREAMS = [
+  {
+    num: 1,
+    name: "TRT 1",
+    stream_type: "live",
+    stream_id: 101,
+    stream_icon: "https://example.com/trt1.png",
+    epg_channel_id: "trt1.tr",
+    category_id: "1",
+    tv_archive: 1,
+    tv_archive_duration: "3",
+  },
+  {
+    num: 2,
+    name: "Show TV",
+    stream_type: "live",
+    stream_id: 102,
+    stream_icon: "",
+    epg_channel_id: null,
+    category_id: "1",
+    tv_archive: 0,
+  },
+  {
+    num: 3,
+    name: "Spor 1 HD",
+    stream_type: "live",
+    stream_id: 103,
+    epg_channel_id: "spor1.tr",
+    category_id: "2",
+  },
+  // Category that the panel does not list
+  { num: 4, name: "Test", stream_type: "live", stream_id: 104, category_id: "9" },
+];
+
+const VOD_CATEGORIES = [{ category_id: "10", category_name: "Filmler" }];
+
+const VOD_STREAMS = [
+  {
+    num: 1,
+    name: "Örnek Film (2020)",
+    stream_type: "movie",
+    stream_id: 201,
+    stream_icon: "https://example.com/film.jpg",
+    category_id: "10",
+    container_extension: "mkv",
+  },
+  {
+    num: 2,
+    name: "Kısa Film",
+    stream_type: "movie",
+    stream_id: 202,
+    category_id: null,
+    container_extension: "mp4",
+  },
+];
+
+const SERIES_CATEGORIES = [{ category_id: "20", category_name: "Diziler" }];
+
+const SERIES = [
+  {
+    num: 1,
+    name: "Örnek Dizi",
+    series_id: 301,
+    cover: "https://example.com/dizi.jpg",
+    category_id: "20",
+  },
+  { num: 2, name: "Boş Dizi", series_id: 302, category_id: "20" },
+];
+
+// Keyed by season like real panels; 302 has no episodes
+const SERIES_INFO: Record<string, unknown> = {
+  "301": {
+    info: { name: "Örnek Dizi" },
+    episodes: {
+      "1": [
+        {
+          id: "3011",
+          episode_num: 1,
+          title: "Örnek Dizi S01E01",
+          season: 1,
+          container_extension: "mp4",
+          info: { movie_image: "https://example.com/e1.jpg" },
+        },
+        { id: "3012", episode_num: 2, season: 1, container_extension: "mkv" },
+      ],
+      "2": [{ id: "3021", episode_num: 1, season: 2 }],
+    },
+  },
+  "302": { info: { name: "Boş Dizi" }, episodes: [] },
+};
+
+function accountInfo() {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    user_info: {
+      username: USERNAME,
+      password: PASSWORD,
+      auth: 1,
+      status: "Active",
+      exp_date: String(now + 30 * 24 * 60 * 60),
+      max_connections: "1",
+      allowed_output_formats: ["m3u8", "ts"],
+    },
+    server_info: {
+      url: "127.0.0.1",
+      port: String(PORT),
+      server_protocol: "http",
+      timestamp_now: now,
+    },
+  };
+}
+
+function apiResponse(action: string | null, params: URLSearchParams) {
+  switch (action) {
+    case null:
+      return accountInfo();
+    case "get_live_categories":
+      return LIVE_CATEGORIES;
+    case "get_live_streams":
+      return LIVE_STREAMS;
+    case "get_vod_categories":
+      return VOD_CATEGORIES;
+    case "get_vod_streams":
+      return VOD_STREAMS;
+    case "get_series_categories":
+      return SERIES_CATEGORIES;
+    case "get_series":
+      return SERIES;
+    case "get_series_info":
+      return SERIES_INFO[params.get("series_id") ?? ""] ?? [];
+    default:
+      return [];
+  }
+}
+
+// Three MPEG-TS null packets
+const TS_SAMPLE = Buffer.alloc(188 * 3, 0xff);
+for (let i = 0; i < 3; i++) {
+  TS_SAMPLE.set([0x47, 0x1f, 0xff, 0x10], i * 188);
+}
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url ?? "/", `http://127.0.0.1:${PORT}`);
+  console.log(request.method, url.pathname + url.search);
+
+  if (url.pathname === "/player_api.php") {
+    const params = url.searchParams;
+    const body =
+      params.get("username") === USERNAME &&
+      params.get("password") === PASSWORD
+        ? apiResponse(params.get("action"), params)
+        : { user_info: { auth: 0 } };
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+    return;
+  }
+
+  const stream = /^\/(live|movie|series)\/([^/]+)\/([^/]+)\/\d+\.\w+$/.exec(
+    url.pathname
+  );
+  if (
+    stream &&
+    decodeURIComponent(stream[2]) === USERNAME &&
+    decodeURIComponent(stream[3]) === PASSWORD
+  ) {
+    response.writeHead(200, { "Content-Type": "video/mp2t" });
+    response.end(TS_SAMPLE);
+    return;
+  }
+
+  response.writeHead(404, { "Content-Type": "text/plain" });
+  response.end("Not found");
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`Mock Xtream panel on http://127.0.0.1:${PORT}`);
+});
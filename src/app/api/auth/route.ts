@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearSessionCookie,
+  hasValidSession,
+  isAccessTokenRequired,
+  isProxyAccessConfigured,
+  isValidAccessToken,
+  setSessionCookie,
+} from "@/lib/request-auth";
+
+/**
+ * GET /api/auth
+ * Whether the server wants an access token, whether this browser has a
+ * session, and whether proxying is configured at all
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    configured: isProxyAccessConfigured(),
+    required: isAccessTokenRequired(),
+    authenticated: hasValidSession(request),
+  });
+}
+
+/**
+ * POST /api/auth
+ * Exchange M3U_ACCESS_TOKEN ({ token }) for a session cookie
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Geçersiz JSON" }, { status: 400 });
+  }
+
+  if (!isAccessTokenRequired()) {
+    return NextResponse.json({ authenticated: true });
+  }
+  if (!isValidAccessToken((body as { token?: unknown } | null)?.token)) {
+    return NextResponse.json(
+      { error: "Erişim anahtarı hatalı" },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({ authenticated: true });
+  setSessionCookie(request, response);
+  return response;
+}
+
+/**
+ * DELETE /api/auth
+ * End the session of this browser
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,217 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { signProxyParams } from "@/lib/proxy-signature";
+import { GET, POST } from "./route";
+
+const directory = mkdtempSync(path.join(tmpdir(), "m3u-download-"));
+process.env.M3U_EXPORT_DIR = directory;
+
+afterEach(() => {
+  delete process.env.M3U_EXPORT_MAX_CHANNELS;
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function channels(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    tvgName: `Kanal ${i + 1}`,
+    url: `http://a.example/${i + 1}.ts`,
+  }));
+}
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/m3u/download", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("POST /api/m3u/download", () => {
+  test("generates the playlist", async () => {
+    const response = await post({ channels: channels(2), filename: "liste" });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(
+      "#EXTM3U\n" +
+        '#EXTINF:-1 tvg-name="Kanal 1",Kanal 1\n' +
+        "http://a.example/1.ts\n" +
+        '#EXTINF:-1 tvg-name="Kanal 2",Kanal 2\n' +
+        "http://a.example/2.ts\n"
+    );
+  });
+
+  test("refuses more channels than a zip can hold before sending", async () => {
+    const response = await post({
+      channels: channels(0x10000),
+      format: "strm",
+    });
+    expect(response.status).toBe(413);
+    expect(
+      readdirSync(directory).filter((name) => name.endsWith(".spool"))
+    ).toEqual([]);
+  });
+
+  test("refuses too many channels and removes the spool", async () => {
+    process.env.M3U_EXPORT_MAX_CHANNELS = "3";
+    const response = await post({ channels: channels(4) });
+    expect(response.status).toBe(413);
+    expect(
+      readdirSync(directory).filter((name) => name.endsWith(".spool"))
+    ).toEqual([]);
+  });
+});
+
+describe("GET /api/m3u/download?id=", () => {
+  let location: string;
+  let content: string;
+  let etag: string;
+
+  beforeAll(async () => {
+    const response = await post({ channels: channels(3) });
+    content = await response.text();
+    location = response.headers.get("content-location")!;
+    etag = (await get()).headers.get("etag")!;
+  });
+
+  function get(headers: Record<string, string> = {}, url = location) {
+    return GET(new NextRequest(`http://localhost${url}`, { headers }));
+  }
+
+  test("serves the stored file with its validators", async () => {
+    const response = await get();
+    expect(response.status).toBe(200);
+    expect(response.headers.get("accept-ranges")).toBe("bytes");
+    expect(response.headers.get("content-length")).toBe(
+      String(Buffer.byteLength(content))
+    );
+    expect(etag).toMatch(/^"[a-f0-9]{64}"$/);
+    expect(await response.text()).toBe(content);
+  });
+
+  test("answers a byte range with 206", async () => {
+    const response = await get({ range: "bytes=8-20" });
+    expect(response.status).toBe(206);
+    expect(response.headers.get("content-range")).toBe(
+      `bytes 8-20/${content.length}`
+    );
+    expect(await response.text()).toBe(content.slice(8, 21));
+  });
+
+  test("answers a suffix range with the last bytes", async () => {
+    const response = await get({ range: "bytes=-10" });
+    expect(response.status).toBe(206);
+    expect(await response.text()).toBe(content.slice(-10));
+  });
+
+  test("refuses a range past the end with 416", async () => {
+    const response = await get({ range: `bytes=${content.length}-` });
+    expect(response.status).toBe(416);
+    expect(response.headers.get("content-range")).toBe(
+      `bytes */${content.length}`
+    );
+  });
+
+  test("ignores the range when If-Range no longer matches", async () => {
+    const fresh = await get({ range: "bytes=0-6", "if-range": etag });
+    expect(fresh.status).toBe(206);
+
+    const stale = await get({ range: "bytes=0-6", "if-range": '"other"' });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe(content);
+  });
+
+  test("answers a matching If-None-Match with 304", async () => {
+    expect((await get({ "if-none-match": etag })).status).toBe(304);
+    expect((await get({ "if-none-match": '"other"' })).status).toBe(200);
+  });
+
+  test("returns 404 for unknown or malformed IDs", async () => {
+    const unknown = `/api/m3u/download?id=${"0".repeat(32)}`;
+    expect((await get({}, unknown)).status).toBe(404);
+    expect((await get({}, "/api/m3u/download?id=../x")).status).toBe(404);
+  });
+});
+
+describe("GET /api/m3u/download?url=", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const environment = { ...process.env };
+
+  // Transport stream packets, recognizable by their sync bytes
+  const TS = new Uint8Array(188 * 4).map((_, i) => (i % 188 ? 0 : 0x47));
+
+  beforeAll(() => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    process.env.M3U_PROXY_SECRET = "test-secret";
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(request) {
+        const params = new URL(request.url).searchParams;
+        const headers = new Headers();
+        const type = params.get("type");
+        if (type) headers.set("content-type", type);
+        return new Response(params.has("ts") ? TS : "veri", { headers });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    process.env = { ...environment };
+  });
+
+  async function filenameFor(path: string) {
+    const params = new URLSearchParams({
+      url: `http://127.0.0.1:${server.port}${path}`,
+      filename: "Film",
+    });
+    signProxyParams("/api/m3u/download", params);
+    const response = await GET(
+      new NextRequest(`http://localhost/api/m3u/download?${params}`)
+    );
+    expect(response.status).toBe(200);
+    await response.body?.cancel();
+    return /filename="([^"]*)"/.exec(
+      response.headers.get("content-disposition") ?? ""
+    )?.[1];
+  }
+
+  test("takes the extension from a specific Content-Type first", async () => {
+    expect(await filenameFor("/film.mp4?ts&type=video/x-matroska")).toBe(
+      "Film.mkv"
+    );
+  });
+
+  test("reads the bytes when the Content-Type is generic", async () => {
+    expect(
+      await filenameFor("/film.mp4?ts&type=application/octet-stream")
+    ).toBe("Film.ts");
+  });
+
+  test("falls back to the URL extension", async () => {
+    expect(await filenameFor("/film.avi?type=text/plain")).toBe("Film.avi");
+  });
+
+  test("refuses links it did not sign", async () => {
+    const response = await GET(
+      new NextRequest(
+        "http://localhost/api/m3u/download?url=http://a.example/film.mp4"
+      )
+    );
+    expect(response.status).toBe(403);
+  });
+});
@@ -1,98 +1,229 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  createContentDispositionHeader,
+  parseContentDispositionFilename,
+  sanitizeFilename,
+} from "@/lib/content-disposition";
+import {
+  ExportSpool,
+  ExportTooLargeError,
+  createExportId,
+  getStoredExport,
+  readStoredExport,
+  storeExport,
+  type StoredExport,
+} from "@/lib/export-store";
+import { readJsonObjectStream } from "@/lib/json-stream";
+import type { M3UChannel } from "@/lib/m3u-parser";
+import { peekStream } from "@/lib/m3u-stream";
+import {
+  MEDIA_SNIFF_BYTES,
+  MEDIA_TYPES,
+  extensionFromContentType,
+  getMediaExtension,
+  isGenericContentType,
+  sniffMediaExtension,
+  withMediaExtension,
+} from "@/lib/media-type";
+import {
+  EXPORT_FORMAT_DETAILS,
+  generateExport,
+  isExportFormat,
+  toByteStream,
+  type ExportFormat,
+} from "@/lib/playlist-export";
+import {
+  ProxySignatureError,
+  getExportProxyExpiry,
+  verifyProxyParams,
+} from "@/lib/proxy-signature";
+import { RequestAuthError, assertAuthorizedRequest } from "@/lib/request-auth";
+import { parseProxyHeaders } from "@/lib/stream-proxy";
+import { createProxiedChannel } from "@/lib/stream-relay";
+import { BlockedUrlError, safeFetch } from "@/lib/url-safety";
 
 export interface DownloadRequest {
-  channels: {
-    id: string;
-    tvgName: string;
-    tvgNameAttribute?: string;
-    tvgLogo?: string;
-    tvgId?: string;
-    tvgCountry?: string;
-    tvgLanguage?: string;
-    groupTitle?: string;
-    url: string;
-  }[];
+  channels: M3UChannel[];
   filename?: string;
-}
-
-function sanitizeFilename(filename: string): string {
-  const cleaned = filename
-    .replace(/[\u0000-\u001F<>:"/\\|?*]/g, "")
-    .replace(/\s+/g, " ")
-    .trim()
-    .replace(/[. ]+$/g, "")
-    .slice(0, 160);
-
-  return cleaned || "download";
-}
-
-function isBlockedHostname(hostname: string): boolean {
-  const host = hostname.toLowerCase();
-  if (host === "localhost" || host === "127.0.0.1" || host === "::1")
-    return true;
-  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
-    const parts = host.split(".").map((p) => Number(p));
-    if (parts.some((p) => Number.isNaN(p) || p < 0 || p > 255)) return true;
-    if (parts[0] === 10) return true;
-    if (parts[0] === 127) return true;
-    if (parts[0] === 192 && parts[1] === 168) return true;
-    if (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) return true;
-    if (parts[0] === 169 && parts[1] === 254) return true;
-    if (parts[0] === 0) return true;
-  }
-  return false;
-}
-
-function createContentDispositionHeader(filename: string): string {
-  const safe = sanitizeFilename(filename);
-  const asciiFallback = safe.replace(/[^\x20-\x7E]/g, "") || "download";
-  const encoded = encodeURIComponent(safe);
-  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encoded}`;
+  /** #EXTM3U header attributes of the source playlist */
+  playlistAttributes?: Record<string, string>;
+  /** Output format, M3U by default */
+  format?: ExportFormat;
+  /** Point every stream URL at this server's /api/m3u/stream relay */
+  proxyStreams?: boolean;
 }
 
 /**
  * POST /api/m3u/download
- * Generate and download M3U file with resumable download support
+ * Generate and download the selected channels as M3U, JSON, CSV, XSPF, PLS,
+ * an Enigma2 userbouquet or a zip of Kodi .strm files.
+ *
+ * The JSON body is read incrementally and the file is generated while it is
+ * sent, so memory stays flat for any number of channels. Channels are
+ * spooled to disk until the body has been read, so the other fields may
+ * come before or after `channels`; `format` and `filename` can also be
+ * given in the query string. Bodies past M3U_EXPORT_MAX_CHANNELS channels or
+ * the space left under M3U_EXPORT_MAX_BYTES are refused with 413.
+ *
+ * With `proxyStreams` (or `?proxy=1`) each http(s) stream URL is replaced
+ * by a signed /api/m3u/stream link on this server, which also sends the
+ * channel's stream headers. This needs the same authorization as
+ * POST /api/m3u/proxy-url.
+ *
+ * The generated file is also stored; `Content-Location` points at
+ * GET /api/m3u/download?id=..., which serves it with Range support.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body: DownloadRequest = await request.json();
-    const { channels, filename } = body;
+    if (!request.body) {
+      return NextResponse.json(
+        { error: "İndirilecek kanal bulunamadı" },
+        { status: 400 }
+      );
+    }
+
+    const fields: Partial<Record<keyof DownloadRequest, unknown>> = {};
+    const spool = await ExportSpool.create();
+    let first: M3UChannel | undefined;
+    let count = 0;
+
+    // Options may follow the channel array, so the export only starts
+    // once the whole body is in
+    try {
+      for await (const event of readJsonObjectStream(
+        request.body,
+        "channels"
+      )) {
+        if (event.type === "field") {
+          fields[event.key as keyof DownloadRequest] = event.value;
+        } else if (isChannel(event.value)) {
+          // Invalid entries are dropped
+          first ??= event.value;
+          count++;
+          await spool.write(event.value);
+        }
+      }
+    } catch (error) {
+      await spool.discard();
+      throw error;
+    }
 
-    if (!channels || channels.length === 0) {
+    if (!first) {
+      await spool.discard();
       return NextResponse.json(
         { error: "İndirilecek kanal bulunamadı" },
         { status: 400 }
       );
     }
 
-    // Generate M3U content
-    const m3uContent = generateM3UContent(channels);
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") ?? fields.format ?? "m3u";
+    if (!isExportFormat(format)) {
+      await spool.discard();
+      return NextResponse.json(
+        { error: "Desteklenmeyen dışa aktarma formatı" },
+        { status: 400 }
+      );
+    }
+
+    const filename = params.get("filename") ?? fields.filename;
+    const playlistAttributes = fields.playlistAttributes;
 
     // Generate filename from tvg-name of first channel or provided filename
-    const finalFilename =
-      filename ||
-      generateFilename(
-        channels[0].tvgNameAttribute || channels[0].tvgName,
-        channels.length
+    const baseFilename =
+      typeof filename === "string" && filename
+        ? filename
+        : generateFilename(first.tvgNameAttribute || first.tvgName, count);
+    const details = EXPORT_FORMAT_DETAILS[format];
+    // Refused now: once the response has started, an error only truncates it
+    if (details.maxChannels !== undefined && count > details.maxChannels) {
+      await spool.discard();
+      return NextResponse.json(
+        {
+          error: `Bu format en fazla ${details.maxChannels} kanal alabilir`,
+        },
+        { status: 413 }
       );
+    }
 
-    // Create response with headers for resumable download
-    const response = new NextResponse(m3uContent, {
+    // Whoever holds a proxied file can use the relay until its links
+    // expire, so exporting one takes the same authorization as signing
+    const proxyStreams =
+      params.get("proxy") === "1" || fields.proxyStreams === true;
+    if (proxyStreams) {
+      try {
+        assertAuthorizedRequest(request);
+      } catch (error) {
+        await spool.discard();
+        throw error;
+      }
+    }
+
+    // Devices reach the relay at the public address of this server
+    const relay = proxyStreams
+      ? {
+          baseUrl: process.env.M3U_PUBLIC_URL || request.nextUrl.origin,
+          expires: getExportProxyExpiry(),
+        }
+      : null;
+
+    async function* channels(): AsyncGenerator<M3UChannel> {
+      for await (const channel of spool.read<M3UChannel>()) {
+        yield relay ? createProxiedChannel(channel, relay) : channel;
+      }
+    }
+
+    const id = createExportId();
+    const body = storeExport(
+      toByteStream(
+        generateExport(format, channels(), {
+          title: baseFilename,
+          playlistAttributes:
+            playlistAttributes &&
+            typeof playlistAttributes === "object" &&
+            !Array.isArray(playlistAttributes)
+              ? (playlistAttributes as Record<string, string>)
+              : {},
+        })
+      ),
+      {
+        id,
+        filename: details.filename(baseFilename),
+        contentType: details.contentType,
+      }
+    );
+
+    return new NextResponse(body, {
       status: 200,
       headers: {
-        "Content-Type": "audio/x-mpegurl; charset=utf-8",
-        "Content-Disposition": `attachment; filename="${finalFilename}.m3u"`,
-        "Content-Length": Buffer.byteLength(m3uContent).toString(),
-        "Accept-Ranges": "bytes", // Enable resumable downloads
+        "Content-Type": details.contentType,
+        "Content-Disposition": createContentDispositionHeader(
+          details.filename(baseFilename)
+        ),
+        // Resumable copy of this file, available once it is complete
+        "Content-Location": `/api/m3u/download?id=${id}`,
         "Cache-Control": "no-cache, no-store, must-revalidate",
         Pragma: "no-cache",
         Expires: "0",
       },
     });
-
-    return response;
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Geçersiz istek gövdesi", details: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+
     console.error("M3U download error:", error);
     return NextResponse.json(
       {
@@ -104,63 +235,138 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function isChannel(value: unknown): value is M3UChannel {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as M3UChannel).url === "string" &&
+    typeof (value as M3UChannel).tvgName === "string"
+  );
+}
+
 /**
- * Generate M3U content from channels
+ * Serve a stored export with Range, If-Range and If-None-Match handling
  */
-function generateM3UContent(channels: any[]): string {
-  let content = "#EXTM3U\n";
-
-  for (const channel of channels) {
-    const info: string[] = [];
-
-    if (channel.tvgName)
-      info.push(`tvg-name="${escapeAttribute(channel.tvgName)}"`);
-    if (channel.tvgLogo)
-      info.push(`tvg-logo="${escapeAttribute(channel.tvgLogo)}"`);
-    if (channel.tvgId) info.push(`tvg-id="${escapeAttribute(channel.tvgId)}"`);
-    if (channel.tvgCountry)
-      info.push(`tvg-country="${escapeAttribute(channel.tvgCountry)}"`);
-    if (channel.tvgLanguage)
-      info.push(`tvg-language="${escapeAttribute(channel.tvgLanguage)}"`);
-    if (channel.groupTitle)
-      info.push(`group-title="${escapeAttribute(channel.groupTitle)}"`);
-
-    content += `#EXTINF:-1 ${info.join(" ")},${escapeValue(channel.tvgName)}\n`;
-    content += `${channel.url}\n`;
+async function serveStoredExport(
+  request: NextRequest,
+  id: string
+): Promise<NextResponse> {
+  const stored = await getStoredExport(id);
+  if (!stored) {
+    return NextResponse.json(
+      { error: "Dosya bulunamadı veya süresi doldu" },
+      { status: 404 }
+    );
   }
 
-  return content;
+  const lastModified = new Date(stored.createdAt).toUTCString();
+  const headers = new Headers({
+    "Content-Type": stored.contentType,
+    "Content-Disposition": createContentDispositionHeader(stored.filename),
+    "Accept-Ranges": "bytes",
+    ETag: stored.etag,
+    "Last-Modified": lastModified,
+    // The content behind an ID never changes
+    "Cache-Control": "private, max-age=86400, immutable",
+  });
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (
+    ifNoneMatch &&
+    (ifNoneMatch.trim() === "*" ||
+      ifNoneMatch
+        .split(",")
+        .some((tag) => tag.trim().replace(/^W\//, "") === stored.etag))
+  ) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const rangeHeader = request.headers.get("range");
+  const range =
+    rangeHeader && isIfRangeFresh(request.headers.get("if-range"), stored)
+      ? parseRange(rangeHeader, stored.size)
+      : null;
+
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${stored.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+
+  if (range) {
+    headers.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${stored.size}`
+    );
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    return new NextResponse(readStoredExport(id, range.start, range.end), {
+      status: 206,
+      headers,
+    });
+  }
+
+  headers.set("Content-Length", String(stored.size));
+  return new NextResponse(
+    stored.size > 0 ? readStoredExport(id, 0, stored.size - 1) : null,
+    { status: 200, headers }
+  );
 }
 
 /**
- * Escape attribute values for M3U format
+ * A Range request only applies when If-Range (if sent) still matches the
+ * stored file, by strong ETag or exact Last-Modified date
  */
-function escapeAttribute(value: string): string {
-  if (!value) return "";
-  return value
-    .replace(/"/g, "'") // Replace double quotes with single quotes
-    .replace(/[\r\n]/g, ""); // Remove line breaks
+function isIfRangeFresh(ifRange: string | null, stored: StoredExport): boolean {
+  if (!ifRange) return true;
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return value === stored.etag;
+  }
+  return (
+    Date.parse(value) ===
+    Math.floor(Date.parse(stored.createdAt) / 1000) * 1000
+  );
 }
 
 /**
- * Escape display name values
+ * Parse a single "bytes=" range. Returns null when the header should be
+ * ignored (other units, multiple or malformed ranges) and the full file sent.
  */
-function escapeValue(value: string): string {
-  if (!value) return "Unknown";
-  return value.replace(/[\r\n]/g, "").trim();
+function parseRange(
+  header: string,
+  size: number
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  if (match[2] && Number(match[2]) < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return {
+    start,
+    end: match[2] ? Math.min(Number(match[2]), size - 1) : size - 1,
+  };
 }
 
 /**
  * Generate safe filename from channel name
  */
-function generateFilename(channelName: string, count: number): string {
+function generateFilename(channelName: string, count?: number): string {
   const date = new Date().toISOString().split("T")[0];
   const safeName = channelName
     .replace(/[^a-zA-Z0-9ğüşıöçĞÜŞİÖÇ\s-]/g, "") // Keep only alphanumeric, Turkish chars, spaces and hyphens
     .trim()
     .substring(0, 50); // Limit to 50 characters
 
-  return `${safeName || "channels"}_${count}_${date}`;
+  return count === undefined
+    ? `${safeName || "channels"}_${date}`
+    : `${safeName || "channels"}_${count}_${date}`;
 }
 
 /**
@@ -170,61 +376,119 @@ function generateFilename(channelName: string, count: number): string {
 export async function GET(request: NextRequest) {
   const urlParam = request.nextUrl.searchParams.get("url");
   const filenameParam = request.nextUrl.searchParams.get("filename");
+  const idParam = request.nextUrl.searchParams.get("id");
+
+  if (idParam) {
+    return serveStoredExport(request, idParam);
+  }
 
   if (urlParam) {
-    let targetUrl: URL;
+    // Only links signed by POST /api/m3u/proxy-url are proxied
     try {
-      targetUrl = new URL(urlParam);
-    } catch {
-      return NextResponse.json({ error: "Geçersiz url" }, { status: 400 });
-    }
-
-    if (targetUrl.protocol !== "http:" && targetUrl.protocol !== "https:") {
-      return NextResponse.json({ error: "Geçersiz url" }, { status: 400 });
-    }
-
-    if (isBlockedHostname(targetUrl.hostname)) {
-      return NextResponse.json({ error: "Engellenen url" }, { status: 400 });
+      verifyProxyParams("/api/m3u/download", request.nextUrl.searchParams);
+    } catch (error) {
+      if (error instanceof ProxySignatureError) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      throw error;
     }
 
     const range = request.headers.get("range") ?? "bytes=0-";
     const userAgent =
       request.headers.get("user-agent") ??
       "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
-    const upstream = await fetch(targetUrl.toString(), {
-      headers: {
-        range,
-        "user-agent": userAgent,
-        accept: "*/*",
-        "accept-language":
-          request.headers.get("accept-language") ??
-          "tr-TR,tr;q=0.9,en-US;q=0.8,en;q=0.7",
-        referer: `${request.nextUrl.origin}/`,
-      },
-      redirect: "follow",
-    });
+    // Stream headers from the playlist (#EXTVLCOPT, #KODIPROP, #EXTHTTP)
+    const streamHeaders = parseProxyHeaders(
+      request.nextUrl.searchParams.get("headers")
+    );
+
+    // Every redirect hop and resolved address is checked against the
+    // private address blocklist
+    let upstream: Response;
+    let targetUrl: URL;
+    try {
+      ({ response: upstream, url: targetUrl } = await safeFetch(urlParam, {
+        headers: {
+          range,
+          "user-agent": userAgent,
+          accept: "*/*",
+          "accept-language":
+            request.headers.get("accept-language") ??
+            "tr-TR,tr;q=0.9,en-US;q=0.8,en;q=0.7",
+          referer: `${request.nextUrl.origin}/`,
+          ...streamHeaders,
+        },
+        signal: request.signal,
+      }));
+    } catch (error) {
+      if (error instanceof BlockedUrlError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      console.error("Proxy error:", error);
+      return NextResponse.json(
+        {
+          error: "İndirilemedi",
+          details: error instanceof Error ? error.message : "Bilinmeyen hata",
+        },
+        { status: 502 }
+      );
+    }
 
     if (!upstream.ok && upstream.status !== 206) {
+      await upstream.body?.cancel().catch(() => {});
       return NextResponse.json(
         { error: "İndirilemedi", status: upstream.status },
         { status: 502 }
       );
     }
 
-    const filenameFromPath = decodeURIComponent(
-      targetUrl.pathname.split("/").pop() || "download"
-    );
-    const finalName = sanitizeFilename(
-      filenameParam || filenameFromPath || "download"
-    );
-
     const headers = new Headers();
     const contentType = upstream.headers.get("content-type");
     const contentLength = upstream.headers.get("content-length");
     const contentRange = upstream.headers.get("content-range");
     const acceptRanges = upstream.headers.get("accept-ranges");
+    const upstreamName = parseContentDispositionFilename(
+      upstream.headers.get("content-disposition")
+    );
+
+    // A specific Content-Type is taken at its word; the bytes are only
+    // checked when it is missing or generic. Magic numbers are only found
+    // at the start of the file.
+    const declared = extensionFromContentType(contentType);
+    let body: ReadableStream<Uint8Array> | null = upstream.body;
+    let sniffed: string | null = null;
+    if (
+      !declared &&
+      body &&
+      (upstream.status === 200 || /^bytes 0-/i.test(contentRange ?? ""))
+    ) {
+      const peeked = await peekStream(body, MEDIA_SNIFF_BYTES);
+      body = peeked.stream;
+      sniffed = sniffMediaExtension(peeked.head);
+    }
+
+    // What the server says, then the content itself, then the names
+    const extension =
+      declared ??
+      sniffed ??
+      (upstreamName && getMediaExtension(upstreamName)) ??
+      getMediaExtension(filenameParam ?? "") ??
+      getMediaExtension(targetUrl.href);
+
+    const filenameFromPath = decodeURIComponent(
+      targetUrl.pathname.split("/").pop() || "download"
+    );
+    const requestedName =
+      filenameParam || upstreamName || filenameFromPath || "download";
+    const finalName = sanitizeFilename(
+      extension ? withMediaExtension(requestedName, extension) : requestedName
+    );
 
-    if (contentType) headers.set("Content-Type", contentType);
+    if (extension && isGenericContentType(contentType)) {
+      headers.set("Content-Type", MEDIA_TYPES[extension]);
+    } else if (contentType) {
+      headers.set("Content-Type", contentType);
+    }
     if (contentLength) headers.set("Content-Length", contentLength);
     if (contentRange) headers.set("Content-Range", contentRange);
     if (acceptRanges) headers.set("Accept-Ranges", acceptRanges);
@@ -237,7 +501,7 @@ export async function GET(request: NextRequest) {
     headers.set("Pragma", "no-cache");
     headers.set("Expires", "0");
 
-    return new NextResponse(upstream.body, {
+    return new NextResponse(body, {
       status: upstream.status,
       headers,
     });
@@ -248,10 +512,13 @@ export async function GET(request: NextRequest) {
     version: "1.0.0",
     features: [
       "Generate M3U files from selected channels",
-      "Resumable download support via Accept-Ranges header",
+      "Generated files stay resumable for 24h via GET ?id= (Range, ETag, If-Range)",
       "Automatic filename generation from tvg-name",
       "Support for UTF-8 encoding",
       "Safe filename generation",
+      "Preserve #EXTVLCOPT, #KODIPROP and #EXTHTTP directives",
+      "Rewrite stream URLs to signed /api/m3u/stream relay links via ?proxy=1",
+      "Proxy streams with per-channel headers via signed ?url=&headers= links",
     ],
   });
 }
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ArchiveEntryRequiredError,
+  CompressionError,
+  openPlaylistStream,
+} from "@/lib/compression";
+import type { M3UChannel } from "@/lib/m3u-parser";
+import { PlaylistTooLargeError, parsePlaylistStream } from "@/lib/m3u-stream";
+import {
+  EXPORT_FORMAT_DETAILS,
+  generateExport,
+  toByteStream,
+  type ChannelSource,
+} from "@/lib/playlist-export";
+import {
+  PlaylistFilterError,
+  filterChannels,
+  matchesPlaylistFilter,
+  parsePlaylistFilter,
+} from "@/lib/playlist-filter";
+import { RequestAuthError, assertAuthorizedRequest } from "@/lib/request-auth";
+import { getSavedPlaylist, readSavedChannels } from "@/lib/saved-playlists";
+import { BlockedUrlError, safeFetch } from "@/lib/url-safety";
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+/**
+ * GET /api/m3u/filtered?source=...&group=...&country=...
+ * A subset of a saved playlist (source = its ID) or a remote playlist
+ * (source = http(s) URL), generated as M3U on every request so players
+ * always get the current channels. Remote sources make this server fetch
+ * for the caller, so they need the same authorization as
+ * POST /api/m3u/proxy-url; saved playlists stay open for players.
+ *
+ * Filters: group, country, language, type (live/vod/series) and their
+ * exclude* counterparts can be repeated; name and excludeName are
+ * case-insensitive wildcard patterns (`*` for any run of characters, `?`
+ * for one) that the channel name must contain. Regular expressions are
+ * not accepted, since a pattern from a URL could make them run for ages.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const source = params.get("source")?.trim();
+
+  if (!source) {
+    return NextResponse.json({ error: "Kaynak gerekli" }, { status: 400 });
+  }
+
+  try {
+    const filter = parsePlaylistFilter(params);
+
+    let channels: ChannelSource;
+    let playlistAttributes: Record<string, string>;
+    let title: string;
+
+    if (/^https?:\/\//i.test(source)) {
+      assertAuthorizedRequest(request);
+      const { response, url } = await safeFetch(source, {
+        headers: {
+          "user-agent": request.headers.get("user-agent") ?? DEFAULT_USER_AGENT,
+          accept: "*/*",
+        },
+        signal: request.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        await response.body?.cancel().catch(() => {});
+        return NextResponse.json(
+          { error: "Playlist indirilemedi", status: response.status },
+          { status: 502 }
+        );
+      }
+
+      const opened = await openPlaylistStream(response.body, {
+        entry: params.get("entry") || undefined,
+        maxArchiveBytes: MAX_FILE_SIZE,
+      });
+      const iterator = parsePlaylistStream(opened.stream, {
+        baseUrl: url.toString(),
+        maxBytes: MAX_FILE_SIZE,
+      });
+
+      // The header attributes are only known once the whole file is parsed;
+      // keep just the matching channels until then
+      const matched: M3UChannel[] = [];
+      let step = await iterator.next();
+      while (!step.done) {
+        for (const channel of step.value.channels) {
+          if (matchesPlaylistFilter(channel, filter)) matched.push(channel);
+        }
+        step = await iterator.next();
+      }
+
+      channels = matched;
+      playlistAttributes = step.value.playlistAttributes;
+      title = url.hostname;
+    } else {
+      const playlist = await getSavedPlaylist(source);
+      if (!playlist) {
+        return NextResponse.json(
+          { error: "Playlist bulunamadı" },
+          { status: 404 }
+        );
+      }
+
+      channels = filterChannels(readSavedChannels(playlist.id), filter);
+      playlistAttributes = playlist.playlistAttributes;
+      title = playlist.name;
+    }
+
+    const body = toByteStream(
+      generateExport("m3u", channels, { title, playlistAttributes })
+    );
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_FORMAT_DETAILS.m3u.contentType,
+        "Content-Disposition": 'inline; filename="filtered.m3u"',
+        // Always regenerated from the current source
+        "Cache-Control": "no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    if (error instanceof PlaylistFilterError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PlaylistTooLargeError) {
+      return NextResponse.json(
+        {
+          error: `Dosya boyutu çok büyük. Maksimum ${
+            MAX_FILE_SIZE / (1024 * 1024)
+          }MB`,
+        },
+        { status: 413 }
+      );
+    }
+    if (error instanceof ArchiveEntryRequiredError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "entry-required",
+          entries: error.entries,
+        },
+        { status: 409 }
+      );
+    }
+    if (error instanceof CompressionError) {
+      return NextResponse.json({ error: error.message }, { status: 415 });
+    }
+
+    console.error("M3U filter error:", error);
+    return NextResponse.json(
+      {
+        error: "Playlist filtrelenirken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createContentDispositionHeader } from "@/lib/content-disposition";
+import {
+  HlsDownloadError,
+  createHlsStream,
+  fetchHlsPlaylist,
+  resolveHlsPlaylist,
+} from "@/lib/hls-download";
+import {
+  ProxySignatureError,
+  verifyProxyParams,
+} from "@/lib/proxy-signature";
+import { parseProxyHeaders } from "@/lib/stream-proxy";
+import { BlockedUrlError } from "@/lib/url-safety";
+
+/**
+ * GET /api/m3u/hls?url=&variant=&filename=&headers=&expires=&sig=
+ * Download an HLS VOD as a single file: the master playlist is resolved to
+ * a variant (the highest bandwidth unless `variant` gives its index), and
+ * the segments are fetched, decrypted (AES-128) and concatenated into one
+ * MPEG-TS stream, or fragmented MP4 for playlists with #EXT-X-MAP.
+ *
+ * With `info=1` the playlist is described as JSON instead: the variants of
+ * a master playlist, or the segments of a media playlist.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const url = params.get("url");
+  if (!url) {
+    return NextResponse.json({ error: "Url gerekli" }, { status: 400 });
+  }
+
+  const variantParam = params.get("variant");
+  const variant = variantParam === null ? undefined : Number(variantParam);
+  if (variant !== undefined && !Number.isInteger(variant)) {
+    return NextResponse.json({ error: "Geçersiz kalite" }, { status: 400 });
+  }
+
+  const options = {
+    headers: {
+      "user-agent":
+        request.headers.get("user-agent") ??
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      ...parseProxyHeaders(params.get("headers")),
+    },
+    signal: request.signal,
+  };
+
+  try {
+    // Only links signed by POST /api/m3u/proxy-url are fetched
+    verifyProxyParams("/api/m3u/hls", params);
+
+    if (params.get("info") === "1") {
+      const parsed = await fetchHlsPlaylist(url, options);
+      if (parsed.type === "master") {
+        return NextResponse.json({
+          type: "master",
+          variants: parsed.variants.map(({ url: _url, ...info }, index) => ({
+            index,
+            ...info,
+          })),
+        });
+      }
+      return NextResponse.json({
+        type: "media",
+        segmentCount: parsed.playlist.segments.length,
+        totalDuration: parsed.playlist.totalDuration,
+        endList: parsed.playlist.endList,
+        encrypted: parsed.playlist.segments.some((segment) => segment.key),
+        container: parsed.playlist.map ? "mp4" : "ts",
+      });
+    }
+
+    const resolved = await resolveHlsPlaylist(url, { ...options, variant });
+    const { playlist } = resolved;
+    if (!playlist.endList) {
+      throw new HlsDownloadError(
+        "Canlı yayınlar indirilemez; yalnızca #EXT-X-ENDLIST içeren VOD playlistleri desteklenir"
+      );
+    }
+    if (playlist.segments.length === 0) {
+      throw new HlsDownloadError("Playlist segment içermiyor");
+    }
+
+    const extension = playlist.map ? "mp4" : "ts";
+    const baseName = (params.get("filename") || "video").replace(
+      /\.[a-z0-9]{2,4}$/i,
+      ""
+    );
+    const headers = new Headers({
+      "Content-Type": playlist.map ? "video/mp4" : "video/mp2t",
+      "Content-Disposition": createContentDispositionHeader(
+        `${baseName}.${extension}`
+      ),
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "X-Hls-Segment-Count": String(playlist.segments.length),
+      "X-Hls-Duration": String(Math.round(playlist.totalDuration)),
+    });
+
+    // The real size is only known at the end; the bit rate gives an estimate
+    const bandwidth =
+      resolved.variant?.averageBandwidth || resolved.variant?.bandwidth;
+    if (bandwidth) {
+      headers.set(
+        "X-Estimated-Content-Length",
+        String(Math.round((bandwidth * playlist.totalDuration) / 8))
+      );
+    }
+
+    return new NextResponse(createHlsStream(playlist, options), {
+      status: 200,
+      headers,
+    });
+  } catch (error) {
+    if (error instanceof HlsDownloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof ProxySignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("HLS download error:", error);
+    return NextResponse.json(
+      {
+        error: "HLS indirilirken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
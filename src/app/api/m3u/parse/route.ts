@@ -1,190 +1,171 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-export interface M3UChannel {
-  id: string
-  tvgName: string
-  tvgLogo?: string
-  tvgId?: string
-  tvgCountry?: string
-  tvgLanguage?: string
-  groupTitle?: string
-  url: string
-}
-
-export interface M3UParseResult {
-  channels: M3UChannel[]
-  totalChannels: number
-  groups: { name: string; count: number }[]
-}
+import {
+  ArchiveEntryRequiredError,
+  CompressionError,
+  isSupportedUploadName,
+  openPlaylistStream,
+} from '@/lib/compression'
+import type { ContentType } from '@/lib/m3u-parser'
+import {
+  PlaylistTooLargeError,
+  collectPlaylistStream,
+  parsePlaylistStream,
+  type M3UStreamRecord,
+  type PlaylistStream,
+} from '@/lib/m3u-stream'
+import { isEncodingOption } from '@/lib/text-encoding'
+import { BlockedUrlError, safeFetch } from '@/lib/url-safety'
+import { XtreamError, importXtream } from '@/lib/xtream'
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
 
 /**
- * Streaming M3U parser - processes file in chunks for better performance
+ * POST /api/m3u/parse
+ * Parse M3U file with streaming support for large files.
+ *
+ * Accepts multipart/form-data with a `file` field, a JSON body with a remote
+ * playlist `url` or `xtream` panel credentials, or the raw playlist as the
+ * request body (options in the query string). Bodies and remote playlists
+ * are parsed as they arrive. With `?format=ndjson` (or `Accept:
+ * application/x-ndjson`) channels are emitted one per line as soon as they
+ * are parsed, followed by a summary record.
+ *
+ * gzip/deflate/xz bodies are decompressed on the fly and the .m3u/.m3u8 entry
+ * of a zip archive is extracted (pick one with `entry` when there are
+ * several). The size limit counts decompressed bytes.
  */
-class StreamingM3UParser {
-  private channels: M3UChannel[] = []
-  private currentInfo: Partial<M3UChannel> = {}
-  private buffer = ''
-  private channelId = 0
-
-  parse(chunk: string): M3UChannel[] {
-    const newChannels: M3UChannel[] = []
-
-    // Append chunk to buffer
-    this.buffer += chunk
-
-    // Process complete lines
-    const lines = this.buffer.split(/\r?\n/)
-    this.buffer = lines.pop() || '' // Keep incomplete line in buffer
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-
-      // Skip empty lines and header
-      if (!trimmed || trimmed.startsWith('#EXTM3U')) continue
-
-      if (trimmed.startsWith('#EXTINF:')) {
-        // Parse channel info
-        this.parseExtInfo(trimmed)
-      } else if (trimmed.startsWith('http')) {
-        // URL line - complete channel entry
-        if (this.currentInfo.tvgName) {
-          const channel: M3UChannel = {
-            ...this.currentInfo,
-            url: trimmed,
-            id: `channel-${this.channelId++}`,
-          } as M3UChannel
-
-          newChannels.push(channel)
-          this.channels.push(channel)
-        }
-        this.currentInfo = {}
+export async function POST(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const contentType = request.headers.get('content-type') || ''
+
+    let stream: ReadableStream<Uint8Array> | null
+    let fileName: string | null
+    let size: number | null
+    let baseUrl = params.get('baseUrl') || undefined
+    let encodingOption: unknown = params.get('encoding') || 'auto'
+    let entry = params.get('entry') || undefined
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+
+      stream = file ? file.stream() : null
+      fileName = file ? file.name : null
+      size = file ? file.size : null
+      baseUrl = (formData.get('baseUrl') as string | null) || baseUrl
+      encodingOption = formData.get('encoding') || encodingOption
+      entry = (formData.get('entry') as string | null) || entry
+    } else if (contentType.startsWith('application/json')) {
+      const body = await request.json().catch(() => null)
+
+      if (body?.xtream) {
+        return await respond(request, importXtreamRequest(body.xtream, request.signal))
       }
-    }
 
-    return newChannels
-  }
+      // Remote playlist: fetched here, with every redirect hop re-checked
+      if (!body || typeof body.url !== 'string' || !body.url.trim()) {
+        return NextResponse.json(
+          { error: 'Url gerekli' },
+          { status: 400 }
+        )
+      }
 
-  finalize(): M3UChannel[] {
-    // Process any remaining buffer content
-    if (this.buffer.trim()) {
-      const trimmed = this.buffer.trim()
-      if (trimmed.startsWith('http') && this.currentInfo.tvgName) {
-        const channel: M3UChannel = {
-          ...this.currentInfo,
-          url: trimmed,
-          id: `channel-${this.channelId++}`,
-        } as M3UChannel
-        this.channels.push(channel)
+      const { response, url } = await safeFetch(body.url.trim(), {
+        headers: {
+          'user-agent': request.headers.get('user-agent') ?? DEFAULT_USER_AGENT,
+          accept: '*/*',
+        },
+        signal: request.signal,
+      })
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => {})
+        return NextResponse.json(
+          { error: 'Playlist indirilemedi', status: response.status },
+          { status: 502 }
+        )
       }
-    }
-    return this.channels
-  }
 
-  private parseExtInfo(line: string): void {
-    const infoLine = line.substring(8) // Remove #EXTINF:
-
-    // Extract duration (usually -1 for live streams)
-    const durationMatch = infoLine.match(/^(-?\d+)/)
-    const duration = durationMatch ? parseInt(durationMatch[1]) : -1
-
-    // Extract the rest after duration
-    const rest = infoLine.replace(/^(-?\d+)\s*,?\s*/, '')
-
-    // Extract tvg attributes using regex
-    const tvgNameMatch = rest.match(/tvg-name="([^"]*)"/)
-    const tvgLogoMatch = rest.match(/tvg-logo="([^"]*)"/)
-    const tvgIdMatch = rest.match(/tvg-id="([^"]*)"/)
-    const tvgCountryMatch = rest.match(/tvg-country="([^"]*)"/)
-    const tvgLanguageMatch = rest.match(/tvg-language="([^"]*)"/)
-    const groupTitleMatch = rest.match(/group-title="([^"]*)"/)
-
-    // Extract display name (after comma)
-    const displayNameMatch = rest.match(/,\s*(.+)$/)
-    const displayName = displayNameMatch ? displayNameMatch[1].trim() : 'Unknown'
-
-    this.currentInfo = {
-      tvgName: displayName || tvgNameMatch?.[1] || 'Unknown',
-      tvgLogo: tvgLogoMatch?.[1],
-      tvgId: tvgIdMatch?.[1],
-      tvgCountry: tvgCountryMatch?.[1],
-      tvgLanguage: tvgLanguageMatch?.[1],
-      groupTitle: groupTitleMatch?.[1] || 'Other',
+      stream = response.body
+      fileName = null
+      const contentLength = response.headers.get('content-length')
+      size = contentLength ? Number(contentLength) : null
+      // Relative entries resolve against where the playlist really lives
+      baseUrl = url.toString()
+      if (body.encoding) encodingOption = body.encoding
+      if (typeof body.entry === 'string') entry = body.entry
+    } else {
+      // Raw body: read straight from the socket without buffering
+      stream = request.body
+      fileName = params.get('filename')
+      const contentLength = request.headers.get('content-length')
+      size = contentLength ? Number(contentLength) : null
     }
-  }
-}
 
-/**
- * POST /api/m3u/parse
- * Parse M3U file with streaming support for large files
- */
-export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData()
-    const file = formData.get('file') as File
-
-    if (!file) {
+    if (!isEncodingOption(encodingOption)) {
       return NextResponse.json(
-        { error: 'Dosya gerekli' },
+        { error: 'Desteklenmeyen karakter kodlaması' },
         { status: 400 }
       )
     }
 
-    // Validate file type
-    const fileName = file.name.toLowerCase()
-    if (!fileName.endsWith('.m3u') && !fileName.endsWith('.m3u8')) {
+    if (!stream) {
       return NextResponse.json(
-        { error: 'Geçersiz dosya formatı. Lütfen .m3u veya .m3u8 dosyası yükleyin' },
+        { error: 'Dosya gerekli' },
         { status: 400 }
       )
     }
 
-    // Check file size (limit to 50MB)
-    const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
-    if (file.size > MAX_FILE_SIZE) {
+    // Validate file type
+    if (fileName && !isSupportedUploadName(fileName)) {
       return NextResponse.json(
-        { error: `Dosya boyutu çok büyük. Maksimum ${MAX_FILE_SIZE / (1024 * 1024)}MB` },
+        { error: 'Geçersiz dosya formatı. Lütfen .m3u, .m3u8, .gz, .xz veya .zip dosyası yükleyin' },
         { status: 400 }
       )
     }
 
-    const parser = new StreamingM3UParser()
-
-    // Read file in chunks
-    const CHUNK_SIZE = 64 * 1024 // 64KB chunks
-    const fileBuffer = await file.arrayBuffer()
-    const uint8Array = new Uint8Array(fileBuffer)
-
-    let offset = 0
-    while (offset < uint8Array.length) {
-      const chunkSize = Math.min(CHUNK_SIZE, uint8Array.length - offset)
-      const chunk = uint8Array.slice(offset, offset + chunkSize)
-      const chunkText = new TextDecoder('utf-8', { fatal: false }).decode(chunk, { stream: true })
-
-      parser.parse(chunkText)
-      offset += chunkSize
+    // Check declared size up front; the stream is counted as well
+    if (size !== null && size > MAX_FILE_SIZE) {
+      return tooLargeResponse()
     }
 
-    // Finalize parsing
-    const channels = parser.finalize()
-
-    // Calculate groups
-    const groupMap = new Map<string, number>()
-    channels.forEach(channel => {
-      const groupName = channel.groupTitle || 'Other'
-      groupMap.set(groupName, (groupMap.get(groupName) || 0) + 1)
+    const opened = await openPlaylistStream(stream, {
+      entry,
+      maxArchiveBytes: MAX_FILE_SIZE,
     })
 
-    const groups = Array.from(groupMap.entries()).map(([name, count]) => ({ name, count }))
-
-    const result: M3UParseResult = {
-      channels,
-      totalChannels: channels.length,
-      groups,
+    const options = {
+      baseUrl,
+      encoding: encodingOption,
+      maxBytes: MAX_FILE_SIZE,
     }
 
-    return NextResponse.json(result)
+    return await respond(request, parsePlaylistStream(opened.stream, options))
 
   } catch (error) {
+    if (error instanceof PlaylistTooLargeError) {
+      return tooLargeResponse()
+    }
+    if (error instanceof ArchiveEntryRequiredError) {
+      return NextResponse.json(
+        { error: error.message, code: 'entry-required', entries: error.entries },
+        { status: 409 }
+      )
+    }
+    if (error instanceof CompressionError) {
+      return NextResponse.json({ error: error.message }, { status: 415 })
+    }
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof XtreamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('M3U parse error:', error)
     return NextResponse.json(
       {
@@ -196,6 +177,119 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Answer with NDJSON when asked to, otherwise with one JSON document
+ */
+async function respond(request: NextRequest, iterator: PlaylistStream) {
+  const accept = request.headers.get('accept') || ''
+  if (
+    request.nextUrl.searchParams.get('format') === 'ndjson' ||
+    accept.includes('application/x-ndjson')
+  ) {
+    return createNdjsonResponse(iterator)
+  }
+
+  return NextResponse.json(await collectPlaylistStream(iterator))
+}
+
+/**
+ * Validate the `xtream` object of a JSON request and start the import
+ */
+function importXtreamRequest(input: unknown, signal: AbortSignal): PlaylistStream {
+  const config = (input || {}) as Record<string, unknown>
+  const { server, username, password } = config
+  if (
+    typeof server !== 'string' || !server.trim() ||
+    typeof username !== 'string' || !username ||
+    typeof password !== 'string' || !password
+  ) {
+    throw new XtreamError('Sunucu, kullanıcı adı ve şifre gerekli', 400)
+  }
+
+  const types = Array.isArray(config.types)
+    ? config.types.filter((type): type is ContentType =>
+        type === 'live' || type === 'vod' || type === 'series'
+      )
+    : undefined
+
+  return importXtream({
+    server,
+    username,
+    password,
+    types,
+    liveFormat: config.liveFormat === 'm3u8' ? 'm3u8' : 'ts',
+    maxBytes: MAX_FILE_SIZE,
+    signal,
+  })
+}
+
+function tooLargeResponse() {
+  return NextResponse.json(
+    { error: `Dosya boyutu çok büyük. Maksimum ${MAX_FILE_SIZE / (1024 * 1024)}MB` },
+    { status: 413 }
+  )
+}
+
+/**
+ * Stream parsed channels as NDJSON, ending with a summary (or error) record
+ */
+function createNdjsonResponse(iterator: PlaylistStream): Response {
+  const encoder = new TextEncoder()
+  const encode = (records: M3UStreamRecord[]) =>
+    encoder.encode(records.map((record) => JSON.stringify(record)).join('\n') + '\n')
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const step = await iterator.next()
+        if (step.done) {
+          const { channels, ...summary } = step.value
+          controller.enqueue(encode([{ type: 'summary', ...summary }]))
+          controller.close()
+          return
+        }
+
+        const { channels, bytesRead } = step.value
+        controller.enqueue(
+          encode([
+            ...channels.map((channel): M3UStreamRecord => ({ type: 'channel', channel })),
+            { type: 'progress', bytesRead },
+          ])
+        )
+      } catch (error) {
+        if (!(error instanceof PlaylistTooLargeError || error instanceof CompressionError)) {
+          console.error('M3U parse error:', error)
+        }
+        controller.enqueue(
+          encode([
+            {
+              type: 'error',
+              error: error instanceof PlaylistTooLargeError
+                ? `Dosya boyutu çok büyük. Maksimum ${MAX_FILE_SIZE / (1024 * 1024)}MB`
+                : error instanceof CompressionError
+                  ? error.message
+                  : 'Dosya işlenirken hata oluştu',
+              details: error instanceof Error ? error.message : 'Bilinmeyen hata',
+            },
+          ])
+        )
+        controller.close()
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined as never)
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+}
+
 /**
  * GET /api/m3u/parse
  * Get parser information
@@ -205,12 +299,20 @@ export async function GET() {
     name: 'M3U Streaming Parser',
     version: '1.0.0',
     features: [
-      'Streaming parse with chunk processing',
+      'Streaming parse of the raw request body with a single streaming decoder',
+      'Incremental NDJSON output (?format=ndjson) with a final summary record',
       'Support for large files up to 50MB',
-      'Extract tvg-name, tvg-logo, tvg-id, tvg-country, tvg-language, group-title',
+      'Extract every #EXTINF key="value" attribute (tvg-*, group-title, catchup, ...)',
+      'Accept http(s), rtmp, rtsp, udp, rtp, relative and file stream URIs',
+      'Resolve relative stream URIs against the optional baseUrl field',
+      'Import from a remote URL (JSON body { url }) with SSRF checks on every redirect',
+      'Xtream Codes import (JSON body { xtream: { server, username, password, types } })',
       'Automatic channel grouping',
-      'UTF-8 encoding support',
+      'Diagnostics with line numbers for skipped or malformed entries',
+      'HLS master/media playlist detection with variants listed as entries',
+      'gzip/deflate/xz decompression and zip extraction (?entry= picks a file), limit counted after decompression',
+      'Encoding detection (BOM, UTF-8, Windows-1254, ISO-8859-9) with an optional encoding override field',
     ],
-    supportedFormats: ['.m3u', '.m3u8'],
+    supportedFormats: ['.m3u', '.m3u8', '.m3u.gz', '.gz', '.xz', '.zip'],
   })
 }
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ProxySignatureError,
+  SIGNED_PROXY_PATHS,
+  signProxyParams,
+} from "@/lib/proxy-signature";
+import { RequestAuthError, assertAuthorizedRequest } from "@/lib/request-auth";
+import { BlockedUrlError, assertPublicHttpUrl } from "@/lib/url-safety";
+
+const MAX_URLS = 100;
+
+/**
+ * POST /api/m3u/proxy-url
+ * Sign proxy links built in the browser ({ urls: ["/api/m3u/download?url=…"] })
+ * so the proxy endpoints accept them until they expire. Only authenticated
+ * pages of this server may sign (any page of it with
+ * M3U_ALLOW_ANONYMOUS_PROXY=1).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertAuthorizedRequest(request);
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Geçersiz JSON" }, { status: 400 });
+  }
+
+  const urls = (body as { urls?: unknown } | null)?.urls;
+  if (
+    !Array.isArray(urls) ||
+    urls.length === 0 ||
+    urls.some((url) => typeof url !== "string")
+  ) {
+    return NextResponse.json(
+      { error: "Bağlantı listesi gerekli" },
+      { status: 400 }
+    );
+  }
+  if (urls.length > MAX_URLS) {
+    return NextResponse.json(
+      { error: `En fazla ${MAX_URLS} bağlantı imzalanabilir` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let expires = 0;
+    const signed = (urls as string[]).map((input) => {
+      const link = new URL(input, request.nextUrl.origin);
+      if (
+        link.origin !== request.nextUrl.origin ||
+        !SIGNED_PROXY_PATHS.includes(link.pathname)
+      ) {
+        throw new ProxySignatureError("Bu bağlantı imzalanamaz");
+      }
+      // Refuse private targets now rather than when the link is used
+      assertPublicHttpUrl(link.searchParams.get("url") ?? "");
+
+      expires = signProxyParams(link.pathname, link.searchParams);
+      return `${link.pathname}?${link.searchParams.toString()}`;
+    });
+
+    return NextResponse.json({ urls: signed, expires });
+  } catch (error) {
+    if (
+      error instanceof ProxySignatureError ||
+      error instanceof BlockedUrlError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Proxy URL signing error:", error);
+    return NextResponse.json(
+      {
+        error: "Bağlantılar imzalanırken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { HlsDownloadError, readLimited } from "@/lib/hls-download";
+import { peekStream } from "@/lib/m3u-stream";
+import {
+  MEDIA_SNIFF_BYTES,
+  MEDIA_TYPES,
+  extensionFromContentType,
+  getMediaExtension,
+  isGenericContentType,
+  sniffMediaExtension,
+} from "@/lib/media-type";
+import {
+  ProxySignatureError,
+  verifyProxyParams,
+} from "@/lib/proxy-signature";
+import { parseProxyHeaders } from "@/lib/stream-proxy";
+import { createStreamLink, rewriteHlsManifest } from "@/lib/stream-relay";
+import { BlockedUrlError, safeFetch } from "@/lib/url-safety";
+
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024; // 5MB
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+/**
+ * GET /api/m3u/stream?url=&headers=&expires=&sig=
+ * Relay a live or VOD stream for players that cannot reach the provider or
+ * set the headers it needs. MPEG-TS and other media are passed through
+ * (with Range for seeking); HLS playlists are rewritten so variants,
+ * segments and keys are fetched through this endpoint too, with the same
+ * headers and expiry as the playlist link.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const url = params.get("url");
+  if (!url) {
+    return NextResponse.json({ error: "Url gerekli" }, { status: 400 });
+  }
+
+  try {
+    verifyProxyParams("/api/m3u/stream", params);
+
+    const range = request.headers.get("range");
+    const { response: upstream, url: finalUrl } = await safeFetch(url, {
+      headers: {
+        "user-agent": request.headers.get("user-agent") ?? DEFAULT_USER_AGENT,
+        accept: "*/*",
+        ...(range && { range }),
+        ...parseProxyHeaders(params.get("headers")),
+      },
+      signal: request.signal,
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      await upstream.body?.cancel().catch(() => {});
+      return NextResponse.json(
+        { error: "Yayın alınamadı", status: upstream.status },
+        { status: 502 }
+      );
+    }
+
+    const contentType = upstream.headers.get("content-type");
+    let body: ReadableStream<Uint8Array> = upstream.body;
+    let extension = extensionFromContentType(contentType);
+    if (!extension && upstream.status === 200) {
+      const peeked = await peekStream(body, MEDIA_SNIFF_BYTES);
+      body = peeked.stream;
+      extension = sniffMediaExtension(peeked.head);
+    }
+    extension ??= getMediaExtension(finalUrl.href);
+
+    if (extension === "m3u8" && upstream.status === 200) {
+      const text = new TextDecoder().decode(
+        await readLimited(new Response(body), MAX_MANIFEST_BYTES)
+      );
+      const expires = Number(params.get("expires"));
+      const headers = params.get("headers");
+      const manifest = rewriteHlsManifest(text, finalUrl.toString(), (target) =>
+        createStreamLink(target, headers, expires)
+      );
+
+      return new NextResponse(manifest, {
+        status: 200,
+        headers: {
+          "Content-Type": MEDIA_TYPES.m3u8,
+          "Cache-Control": "no-cache, no-store, must-revalidate",
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
+    }
+
+    const headers = new Headers({
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "Access-Control-Allow-Origin": "*",
+    });
+    for (const name of [
+      "content-type",
+      "content-length",
+      "content-range",
+      "accept-ranges",
+    ]) {
+      const value = upstream.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+    if (extension && isGenericContentType(contentType)) {
+      headers.set("content-type", MEDIA_TYPES[extension]);
+    }
+
+    return new NextResponse(body, { status: upstream.status, headers });
+  } catch (error) {
+    if (error instanceof ProxySignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof HlsDownloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Stream relay error:", error);
+    return NextResponse.json(
+      {
+        error: "Yayın aktarılırken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 502 }
+    );
+  }
+}
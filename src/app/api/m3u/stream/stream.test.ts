@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { NextRequest } from "next/server";
+import { signProxyParams } from "@/lib/proxy-signature";
+import { GET } from "./route";
+
+describe("GET /api/m3u/stream", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let origin: string;
+  const environment = { ...process.env };
+  const HEADERS = JSON.stringify({ referer: "http://panel.example/" });
+
+  beforeAll(() => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    process.env.M3U_PROXY_SECRET = "test-secret";
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(request) {
+        const { pathname } = new URL(request.url);
+        // The provider only answers requests carrying the channel's referer
+        if (request.headers.get("referer") !== "http://panel.example/") {
+          return new Response("", { status: 403 });
+        }
+        switch (pathname) {
+          case "/live/master.m3u8":
+            return new Response(
+              "#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nlow/index.m3u8\n",
+              { headers: { "content-type": "application/vnd.apple.mpegurl" } }
+            );
+          // No HLS content type, so the relay has to read the playlist
+          case "/live/low/index.m3u8":
+            return new Response(
+              '#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="/keys/1"\n' +
+                "#EXTINF:6.0,\nseg-1.ts\n",
+              { headers: { "content-type": "application/octet-stream" } }
+            );
+          case "/live/low/seg-1.ts":
+            return new Response("segment", {
+              headers: { "content-type": "video/mp2t" },
+            });
+          default:
+            return new Response("", { status: 404 });
+        }
+      },
+    });
+    origin = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    process.env = { ...environment };
+  });
+
+  function get(link: string) {
+    return GET(new NextRequest(new URL(link, "http://localhost")));
+  }
+
+  function signed(url: string, expires?: number) {
+    const params = new URLSearchParams({ url, headers: HEADERS });
+    signProxyParams("/api/m3u/stream", params, expires);
+    return `/api/m3u/stream?${params}`;
+  }
+
+  async function links(response: Response) {
+    return (await response.text())
+      .split("\n")
+      .filter((line) => line && !line.startsWith("#EXTM3U"));
+  }
+
+  test("relays nested playlists with the same headers and expiry", async () => {
+    const expires = Math.floor(Date.now() / 1000) + 600;
+    const master = await get(signed(`${origin}/live/master.m3u8`, expires));
+    expect(master.status).toBe(200);
+    expect(master.headers.get("content-type")).toBe(
+      "application/vnd.apple.mpegurl"
+    );
+
+    const [, variantLink] = await links(master);
+    const variant = new URL(variantLink, "http://localhost").searchParams;
+    expect(variant.get("url")).toBe(`${origin}/live/low/index.m3u8`);
+    expect(variant.get("headers")).toBe(HEADERS);
+    expect(variant.get("expires")).toBe(String(expires));
+
+    const media = await get(variantLink);
+    expect(media.status).toBe(200);
+    const [key, , segmentLink] = await links(media);
+    const keyLink = /URI="([^"]*)"/.exec(key)![1];
+    expect(new URL(keyLink, "http://localhost").searchParams.get("url")).toBe(
+      `${origin}/keys/1`
+    );
+    expect(
+      new URL(segmentLink, "http://localhost").searchParams.get("expires")
+    ).toBe(String(expires));
+
+    const segment = await get(segmentLink);
+    expect(segment.status).toBe(200);
+    expect(segment.headers.get("content-type")).toBe("video/mp2t");
+    expect(await segment.text()).toBe("segment");
+  });
+
+  test("refuses links that are unsigned or changed", async () => {
+    expect(
+      (await get(`/api/m3u/stream?url=${origin}/live/master.m3u8`)).status
+    ).toBe(403);
+
+    const link = new URL(signed(`${origin}/live/master.m3u8`), "http://a");
+    link.searchParams.set("headers", "{}");
+    expect((await get(link.pathname + link.search)).status).toBe(403);
+  });
+
+  test("reports upstream errors as 502", async () => {
+    expect((await get(signed(`${origin}/missing.ts`))).status).toBe(502);
+  });
+});
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { M3UChannel } from "@/lib/m3u-parser";
+import {
+  EXPORT_FORMAT_DETAILS,
+  generateExport,
+  toByteStream,
+} from "@/lib/playlist-export";
+import { RequestAuthError, assertAuthorizedRequest } from "@/lib/request-auth";
+import {
+  SavedPlaylistError,
+  deleteSavedPlaylist,
+  getSavedPlaylist,
+  parseSavedPlaylistInput,
+  readSavedChannels,
+  updateSavedPlaylist,
+} from "@/lib/saved-playlists";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const M3U_SUFFIX = ".m3u";
+
+/**
+ * GET /api/playlists/{id}.m3u
+ * The saved playlist as M3U, always generated from its latest version. Open
+ * to anyone with the link so players can subscribe to it.
+ *
+ * GET /api/playlists/{id}
+ * The playlist details and channels as JSON
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id: param } = await params;
+  const asM3U = param.endsWith(M3U_SUFFIX);
+  const id = asM3U ? param.slice(0, -M3U_SUFFIX.length) : param;
+
+  try {
+    const playlist = await getSavedPlaylist(id);
+    if (!playlist) {
+      return NextResponse.json(
+        { error: "Playlist bulunamadı" },
+        { status: 404 }
+      );
+    }
+
+    if (!asM3U) {
+      const channels: M3UChannel[] = [];
+      for await (const channel of readSavedChannels(id)) {
+        channels.push(channel);
+      }
+      return NextResponse.json({ ...playlist, channels });
+    }
+
+    const lastModified = new Date(playlist.updatedAt).toUTCString();
+    const ifModifiedSince = request.headers.get("if-modified-since");
+    if (
+      ifModifiedSince &&
+      Date.parse(ifModifiedSince) >=
+        Math.floor(Date.parse(playlist.updatedAt) / 1000) * 1000
+    ) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { "Last-Modified": lastModified },
+      });
+    }
+
+    const body = toByteStream(
+      generateExport("m3u", readSavedChannels(id), {
+        title: playlist.name,
+        playlistAttributes: playlist.playlistAttributes,
+      })
+    );
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_FORMAT_DETAILS.m3u.contentType,
+        "Content-Disposition": `inline; filename="${id}.m3u"`,
+        "Last-Modified": lastModified,
+        // Players should pick up edits on their next refresh
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Playlist read error:", error);
+    return NextResponse.json(
+      {
+        error: "Playlist okunurken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/playlists/{id}
+ * Rename the playlist or replace its channels; omitted fields are kept.
+ * Needs the same authorization as POST /api/m3u/proxy-url.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    assertAuthorizedRequest(request);
+    const input = parseSavedPlaylistInput(await request.json(), true);
+    const playlist = await updateSavedPlaylist(id, input);
+    if (!playlist) {
+      return NextResponse.json(
+        { error: "Playlist bulunamadı" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(playlist);
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof SavedPlaylistError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Geçersiz istek gövdesi" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Playlist update error:", error);
+    return NextResponse.json(
+      {
+        error: "Playlist güncellenirken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/playlists/{id}
+ * Needs the same authorization as POST /api/m3u/proxy-url
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    assertAuthorizedRequest(request);
+    if (!(await deleteSavedPlaylist(id))) {
+      return NextResponse.json(
+        { error: "Playlist bulunamadı" },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Playlist delete error:", error);
+    return NextResponse.json(
+      {
+        error: "Playlist silinirken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { NextRequest } from "next/server";
+
+// A fresh database per run, created from the Prisma schema before the
+// routes (and with them the Prisma client) are loaded
+const directory = mkdtempSync(path.join(tmpdir(), "m3u-playlists-"));
+process.env.DATABASE_URL = `file:${path.join(directory, "test.db")}`;
+process.env.M3U_ACCESS_TOKEN = "test-token";
+
+type Routes = typeof import("./route");
+type PlaylistRoutes = typeof import("./[id]/route");
+let routes: Routes;
+let playlistRoutes: PlaylistRoutes;
+
+beforeAll(async () => {
+  const push = Bun.spawnSync(
+    ["npx", "--no-install", "prisma", "db", "push", "--skip-generate"],
+    { env: process.env, stderr: "pipe", stdout: "pipe" }
+  );
+  if (push.exitCode !== 0) throw new Error(push.stderr.toString());
+
+  routes = await import("./route");
+  playlistRoutes = await import("./[id]/route");
+}, 120_000);
+
+afterAll(async () => {
+  const { db } = await import("@/lib/db");
+  await db.$disconnect();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function request(
+  url: string,
+  init?: { method: string; body?: unknown; token?: string | null }
+) {
+  const token = init?.token === undefined ? "test-token" : init.token;
+  return new NextRequest(new URL(url, "http://localhost"), {
+    method: init?.method ?? "GET",
+    headers: {
+      "content-type": "application/json",
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+    body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
+
+function context(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe("saved playlists", () => {
+  let id: string;
+
+  test("creates a playlist and drops invalid entries", async () => {
+    const response = await routes.POST(
+      request("/api/playlists", {
+        method: "POST",
+        body: {
+          name: "  Spor  ",
+          playlistAttributes: { "x-tvg-url": "http://epg.example/guide.xml" },
+          channels: [
+            {
+              tvgName: "Spor 1",
+              url: "http://a.example/1.ts",
+              groupTitle: "Spor",
+            },
+            { tvgName: "Spor 2", url: "http://a.example/2.ts" },
+            { tvgName: "Broken" },
+          ],
+        },
+      })
+    );
+    expect(response.status).toBe(201);
+
+    const summary = await response.json();
+    expect(summary.name).toBe("Spor");
+    expect(summary.channelCount).toBe(2);
+    expect(summary.m3uUrl).toBe(`/api/playlists/${summary.id}.m3u`);
+    id = summary.id;
+
+    const { playlists } = await (
+      await routes.GET(request("/api/playlists"))
+    ).json();
+    expect(playlists.map((playlist: { id: string }) => playlist.id)).toEqual([
+      id,
+    ]);
+  });
+
+  test("needs the access token to list playlists", async () => {
+    const anonymous = await routes.GET(
+      request("/api/playlists", { method: "GET", token: null })
+    );
+    expect(anonymous.status).toBe(401);
+  });
+
+  test("needs the access token to change playlists", async () => {
+    const body = {
+      name: "Anonim",
+      channels: [{ tvgName: "Kanal", url: "http://a.example/k.ts" }],
+    };
+    const anonymous = await routes.POST(
+      request("/api/playlists", { method: "POST", body, token: null })
+    );
+    expect(anonymous.status).toBe(401);
+
+    const wrong = await playlistRoutes.PUT(
+      request(`/api/playlists/${id}`, { method: "PUT", body, token: "x" }),
+      context(id)
+    );
+    expect(wrong.status).toBe(401);
+
+    const deleted = await playlistRoutes.DELETE(
+      request(`/api/playlists/${id}`, { method: "DELETE", token: null }),
+      context(id)
+    );
+    expect(deleted.status).toBe(401);
+
+    const { playlists } = await (
+      await routes.GET(request("/api/playlists"))
+    ).json();
+    expect(playlists).toHaveLength(1);
+    expect(playlists[0].name).toBe("Spor");
+  });
+
+  test("rejects a body without channels", async () => {
+    const response = await routes.POST(
+      request("/api/playlists", { method: "POST", body: { name: "Empty" } })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  test("serves the playlist as M3U", async () => {
+    const response = await playlistRoutes.GET(
+      request(`/api/playlists/${id}.m3u`),
+      context(`${id}.m3u`)
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("last-modified")).toBeTruthy();
+    expect(await response.text()).toBe(
+      '#EXTM3U x-tvg-url="http://epg.example/guide.xml"\n' +
+        '#EXTINF:-1 tvg-name="Spor 1" group-title="Spor",Spor 1\n' +
+        "http://a.example/1.ts\n" +
+        '#EXTINF:-1 tvg-name="Spor 2",Spor 2\n' +
+        "http://a.example/2.ts\n"
+    );
+
+    const url = new URL(`/api/playlists/${id}.m3u`, "http://localhost");
+    const cached = await playlistRoutes.GET(
+      new NextRequest(url, {
+        headers: {
+          "if-modified-since": response.headers.get("last-modified")!,
+        },
+      }),
+      context(`${id}.m3u`)
+    );
+    expect(cached.status).toBe(304);
+  });
+
+  test("updates the name and replaces the channels", async () => {
+    const response = await playlistRoutes.PUT(
+      request(`/api/playlists/${id}`, {
+        method: "PUT",
+        body: {
+          name: "Haber",
+          channels: [{ tvgName: "Haber 1", url: "http://a.example/3.ts" }],
+        },
+      }),
+      context(id)
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).channelCount).toBe(1);
+
+    const details = await (
+      await playlistRoutes.GET(request(`/api/playlists/${id}`), context(id))
+    ).json();
+    expect(details.name).toBe("Haber");
+    expect(details.playlistAttributes).toEqual({
+      "x-tvg-url": "http://epg.example/guide.xml",
+    });
+    expect(details.channels).toEqual([
+      { tvgName: "Haber 1", url: "http://a.example/3.ts" },
+    ]);
+  });
+
+  test("deletes the playlist", async () => {
+    const response = await playlistRoutes.DELETE(
+      request(`/api/playlists/${id}`, { method: "DELETE" }),
+      context(id)
+    );
+    expect(response.status).toBe(204);
+
+    const missing = await playlistRoutes.GET(
+      request(`/api/playlists/${id}.m3u`),
+      context(`${id}.m3u`)
+    );
+    expect(missing.status).toBe(404);
+
+    const again = await playlistRoutes.DELETE(
+      request(`/api/playlists/${id}`, { method: "DELETE" }),
+      context(id)
+    );
+    expect(again.status).toBe(404);
+  });
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RequestAuthError, assertAuthorizedRequest } from "@/lib/request-auth";
+import {
+  SavedPlaylistError,
+  createSavedPlaylist,
+  listSavedPlaylists,
+  parseSavedPlaylistInput,
+} from "@/lib/saved-playlists";
+
+/**
+ * GET /api/playlists
+ * List the playlists saved on the server, most recently updated first.
+ * Their IDs are what keeps the public {id}.m3u URLs private, so listing
+ * them needs the same authorization as POST /api/m3u/proxy-url.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertAuthorizedRequest(request);
+    return NextResponse.json({ playlists: await listSavedPlaylists() });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Playlist list error:", error);
+    return NextResponse.json(
+      {
+        error: "Kayıtlı playlistler okunamadı",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/playlists
+ * Save a channel selection under a name: { name, channels, playlistAttributes? }
+ * Needs the same authorization as POST /api/m3u/proxy-url.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertAuthorizedRequest(request);
+    const input = parseSavedPlaylistInput(await request.json(), false);
+    const playlist = await createSavedPlaylist(input);
+    return NextResponse.json(playlist, { status: 201 });
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof SavedPlaylistError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Geçersiz istek gövdesi" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Playlist save error:", error);
+    return NextResponse.json(
+      {
+        error: "Playlist kaydedilirken hata oluştu",
+        details: error instanceof Error ? error.message : "Bilinmeyen hata",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -20,35 +20,109 @@ import {
   Zap,
   ChevronRight,
   RefreshCw,
+  Ban,
+  AlertTriangle,
+  Link,
+  Server,
+  Clock,
+  Pause,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import { useDebounce } from "@/hooks/use-debounce";
+import { useDownloadQueue } from "@/hooks/use-download-queue";
 import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  isBrowserPlayable,
+  getStreamScheme,
+  matchesContentType,
+  DEFAULT_GROUP_TITLE,
+  HLS_VARIANT_GROUP_TITLE,
+  formatBandwidth,
+  type HlsVariant,
+  type M3UChannel,
+  type M3UGroup,
+  type M3UParseResult,
+  type ContentType,
+} from "@/lib/m3u-parser";
+import { getMediaExtension } from "@/lib/media-type";
+import {
+  authorizedFetch,
+  buildHlsDownloadUrl,
+  buildProxyUrl,
+  buildStreamUrl,
+  getStreamHeaders,
+  setAccessTokenPrompt,
+  signProxyUrl,
+} from "@/lib/stream-proxy";
+import {
+  remapFavorites,
+  toFavoriteChannel,
+  type FavoriteChannel,
+} from "@/lib/channel-id";
+import { COMPRESSED_EXTENSIONS, isSupportedUploadName } from "@/lib/compression";
+import { parseContentDispositionFilename } from "@/lib/content-disposition";
+import { readNdjson, type M3UStreamRecord } from "@/lib/m3u-stream";
+import {
+  ENCODING_LABELS,
+  PLAYLIST_ENCODINGS,
+  type EncodingOption,
+  type PlaylistEncoding,
+} from "@/lib/text-encoding";
+import type { SavedPlaylistSummary } from "@/lib/saved-playlists";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_DETAILS,
+  type ExportFormat,
+} from "@/lib/playlist-export";
+import {
+  MAX_DOWNLOAD_CONCURRENCY,
+  type DownloadItem,
+  type DownloadRequest,
+} from "@/lib/download-queue";
 
-export interface M3UChannel {
-  id: string;
-  tvgName: string;
-  tvgNameAttribute?: string;
-  tvgLogo?: string;
-  tvgId?: string;
-  tvgCountry?: string;
-  tvgLanguage?: string;
-  groupTitle?: string;
-  url: string;
-}
-
-export interface M3UGroup {
-  name: string;
-  count: number;
-}
 
 type ViewMode = "grid" | "list";
+type ParseReport = Pick<
+  M3UParseResult,
+  | "diagnostics"
+  | "diagnosticSummary"
+  | "skippedEntries"
+  | "playlistType"
+  | "hlsMedia"
+>;
 type ContentFilter = "all" | "live" | "vod" | "series";
+type SortOrder = "playlist" | "name" | "duration-desc" | "duration-asc";
+type DurationFilter = "all" | "under-30" | "30-90" | "over-90";
 type VideoViewMode = "normal" | "top" | "bottom" | "left" | "right";
 
 export default function M3UPlayer() {
@@ -62,11 +136,38 @@ export default function M3UPlayer() {
   const [fileInfo, setFileInfo] = useState<{
     name: string;
     size: number;
+    encoding?: PlaylistEncoding;
+    /** Remote playlist URL, kept so the list can be refreshed */
+    sourceUrl?: string;
+    /** Identifies where the list came from across reloads */
+    sourceKey?: string;
+    /** #EXTM3U header attributes (url-tvg, tvg-shift, ...) */
+    playlistAttributes?: Record<string, string>;
   } | null>(null);
+  const [playlistUrl, setPlaylistUrl] = useState("");
+  // A zip upload holding several playlists waits here for the user's pick
+  const [archiveChoice, setArchiveChoice] = useState<{
+    name: string;
+    entries: string[];
+    load: (entry: string) => void;
+  } | null>(null);
+  const [xtreamForm, setXtreamForm] = useState({
+    server: "",
+    username: "",
+    password: "",
+  });
+  const [xtreamTypes, setXtreamTypes] = useState<ContentType[]>([
+    "live",
+    "vod",
+    "series",
+  ]);
+  const [encodingOption, setEncodingOption] = useState<EncodingOption>("auto");
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
   const [contentFilter, setContentFilter] = useState<ContentFilter>("all");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("playlist");
+  const [durationFilter, setDurationFilter] = useState<DurationFilter>("all");
   const [playingChannel, setPlayingChannel] = useState<M3UChannel | null>(null);
   const [isLoadingVideo, setIsLoadingVideo] = useState(false);
   const [videoViewMode, setVideoViewMode] = useState<VideoViewMode>("normal");
@@ -74,9 +175,30 @@ export default function M3UPlayer() {
     "upload"
   );
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [downloadingItems, setDownloadingItems] = useState<Set<string>>(
-    new Set()
+  const {
+    items: downloads,
+    concurrency: downloadConcurrency,
+    queue: downloadQueue,
+  } = useDownloadQueue();
+  const [queueCollapsed, setQueueCollapsed] = useState(false);
+  const [hlsChoice, setHlsChoice] = useState<{
+    channel: M3UChannel;
+    variants: (HlsVariant & { index: number; separateAudio?: boolean })[];
+  } | null>(null);
+  const [parseReport, setParseReport] = useState<ParseReport | null>(null);
+  const [showAllDiagnostics, setShowAllDiagnostics] = useState(false);
+  const [savedPlaylists, setSavedPlaylists] = useState<SavedPlaylistSummary[]>(
+    []
   );
+  const [savedPlaylistName, setSavedPlaylistName] = useState("");
+  const [isSavingPlaylist, setIsSavingPlaylist] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("m3u");
+  const [isExporting, setIsExporting] = useState(false);
+  const [tokenPrompt, setTokenPrompt] = useState<{
+    resolve: (token: string | null) => void;
+  } | null>(null);
+  const [accessToken, setAccessToken] = useState("");
+  const [proxyConfigured, setProxyConfigured] = useState(true);
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<any>(null);
 
@@ -88,10 +210,43 @@ export default function M3UPlayer() {
 
   const STORAGE_LIMIT = 4 * 1024 * 1024;
 
+  // Enough of every favorite to find it again in a new version of the
+  // playlist, kept even when the channels are too large to store
+  const favoriteChannelsRef = useRef(new Map<string, FavoriteChannel>());
+
+  // The server asks for M3U_ACCESS_TOKEN before it signs proxy links
+  useEffect(() => {
+    setAccessTokenPrompt(
+      () =>
+        new Promise((resolve) => {
+          setAccessToken("");
+          setTokenPrompt({ resolve });
+        })
+    );
+    return () => setAccessTokenPrompt(null);
+  }, []);
+
+  // Without M3U_ACCESS_TOKEN or M3U_ALLOW_ANONYMOUS_PROXY the server signs
+  // no links, so downloads and relayed playback would each fail with a 403
+  useEffect(() => {
+    fetch("/api/auth")
+      .then((response) => response.json())
+      .then((auth: { configured?: boolean }) => {
+        if (auth.configured === false) setProxyConfigured(false);
+      })
+      .catch(() => {});
+  }, []);
+
+  const closeTokenPrompt = (token: string | null) => {
+    tokenPrompt?.resolve(token);
+    setTokenPrompt(null);
+  };
+
   useEffect(() => {
     const savedChannels = localStorage.getItem("m3u_channels");
     const savedFileInfo = localStorage.getItem("m3u_file_info");
     const savedFavorites = localStorage.getItem("m3u_favorites");
+    const savedFavoriteChannels = localStorage.getItem("m3u_favorite_channels");
 
     if (savedChannels) {
       try {
@@ -117,6 +272,18 @@ export default function M3UPlayer() {
         console.error("Failed to parse saved favorites:", e);
       }
     }
+
+    if (savedFavoriteChannels) {
+      try {
+        for (const channel of JSON.parse(
+          savedFavoriteChannels
+        ) as FavoriteChannel[]) {
+          favoriteChannelsRef.current.set(channel.id, channel);
+        }
+      } catch (e) {
+        console.error("Failed to parse saved favorite channels:", e);
+      }
+    }
   }, []);
 
   useEffect(() => {
@@ -137,15 +304,28 @@ export default function M3UPlayer() {
   }, [channels]);
 
   useEffect(() => {
+    const known = favoriteChannelsRef.current;
+    for (const channel of channels) {
+      if (favorites.has(channel.id)) {
+        known.set(channel.id, toFavoriteChannel(channel));
+      }
+    }
+
     try {
       localStorage.setItem(
         "m3u_favorites",
         JSON.stringify(Array.from(favorites))
       );
+      localStorage.setItem(
+        "m3u_favorite_channels",
+        JSON.stringify(
+          Array.from(favorites).flatMap((id) => known.get(id) ?? [])
+        )
+      );
     } catch (error) {
       console.error("Error saving favorites:", error);
     }
-  }, [favorites]);
+  }, [favorites, channels]);
 
   useEffect(() => {
     try {
@@ -164,53 +344,6 @@ export default function M3UPlayer() {
     }
   }, [fileInfo]);
 
-  const parseM3U = useCallback((content: string): M3UChannel[] => {
-    const lines = content.split(/\r?\n/);
-    const parsedChannels: M3UChannel[] = [];
-    let currentInfo: Partial<M3UChannel> = {};
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      if (!line || line.startsWith("#EXTM3U")) continue;
-
-      if (line.startsWith("#EXTINF:")) {
-        const infoLine = line.substring(8);
-        const tvgNameMatch = infoLine.match(/tvg-name="([^"]*)"/);
-        const tvgLogoMatch = infoLine.match(/tvg-logo="([^"]*)"/);
-        const tvgIdMatch = infoLine.match(/tvg-id="([^"]*)"/);
-        const tvgCountryMatch = infoLine.match(/tvg-country="([^"]*)"/);
-        const tvgLanguageMatch = infoLine.match(/tvg-language="([^"]*)"/);
-        const groupTitleMatch = infoLine.match(/group-title="([^"]*)"/);
-        const displayNameMatch = infoLine.match(/,\s*(.+)$/);
-        const displayName = displayNameMatch
-          ? displayNameMatch[1].trim()
-          : "Unknown";
-
-        currentInfo = {
-          tvgName: displayName || tvgNameMatch?.[1] || "Unknown",
-          tvgNameAttribute: tvgNameMatch?.[1],
-          tvgLogo: tvgLogoMatch?.[1],
-          tvgId: tvgIdMatch?.[1],
-          tvgCountry: tvgCountryMatch?.[1],
-          tvgLanguage: tvgLanguageMatch?.[1],
-          groupTitle: groupTitleMatch?.[1] || "Diğer",
-        };
-      } else if (line.startsWith("http")) {
-        if (currentInfo.tvgName) {
-          parsedChannels.push({
-            ...currentInfo,
-            url: line,
-            id: `channel-${parsedChannels.length}`,
-          } as M3UChannel);
-        }
-        currentInfo = {};
-      }
-    }
-
-    return parsedChannels;
-  }, []);
-
   useEffect(() => {
     if (!playingChannel) return;
     const context = `${playingChannel.groupTitle || ""} ${
@@ -223,37 +356,157 @@ export default function M3UPlayer() {
     setVideoViewMode("normal");
   }, [playingChannel]);
 
-  const handleFileUpload = useCallback(
-    async (file: File) => {
+  // What is on screen before a new load starts, for favorite migration
+  const loadedPlaylistRef = useRef({ channels, fileInfo });
+  useEffect(() => {
+    loadedPlaylistRef.current = { channels, fileInfo };
+  }, [channels, fileInfo]);
+
+  /**
+   * Run a parse request and consume its NDJSON stream, showing channels as
+   * they arrive. `source.size` is known for uploads; for URLs it is counted.
+   */
+  const loadPlaylist = useCallback(
+    async (
+      request: () => Promise<Response>,
+      source: {
+        name: string;
+        size?: number;
+        sourceUrl?: string;
+        /** Stable identity of a source without a URL; defaults to sourceUrl */
+        sourceKey?: string;
+        /** Retry with a zip entry when the archive holds several playlists */
+        withEntry?: (entry: string) => void;
+      }
+    ) => {
       setIsLoading(true);
+      setArchiveChoice(null);
       setIsProcessing(true);
       setUploadProgress(0);
+      const previous = loadedPlaylistRef.current;
 
       try {
-        const fileContent = await readFile(file);
-        setUploadProgress(50);
+        const response = await request();
+
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null);
+          if (data?.code === "entry-required" && source.withEntry) {
+            setArchiveChoice({
+              name: source.name,
+              entries: data.entries,
+              load: source.withEntry,
+            });
+            toast.info(data.error);
+            return;
+          }
+          throw new Error(data?.error || `HTTP ${response.status}`);
+        }
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
+        const received: M3UChannel[] = [];
+        let bytesRead = 0;
+        let lastFlush = 0;
+        let summary: Extract<M3UStreamRecord, { type: "summary" }> | null =
+          null;
+
+        setChannels([]);
+        setParseReport(null);
+
+        for await (const record of readNdjson<M3UStreamRecord>(
+          response.body
+        )) {
+          if (record.type === "channel") {
+            received.push(record.channel);
+          } else if (record.type === "progress") {
+            bytesRead = record.bytesRead;
+            if (source.size) {
+              setUploadProgress(Math.min(99, (bytesRead / source.size) * 100));
+            }
+            // Render partial results, but not on every chunk
+            if (received.length > 0 && Date.now() - lastFlush > 500) {
+              lastFlush = Date.now();
+              setChannels(received.slice());
+              setView("categories");
+            }
+          } else if (record.type === "summary") {
+            summary = record;
+          } else {
+            throw new Error(record.details || record.error);
+          }
+        }
 
-        const parsedChannels = parseM3U(fileContent);
+        if (!summary) throw new Error("Parse response ended unexpectedly");
+        const {
+          encoding,
+          diagnostics,
+          diagnosticSummary,
+          skippedEntries,
+          playlistType,
+          playlistAttributes,
+          hlsMedia,
+        } = summary;
         setUploadProgress(100);
 
-        setChannels(parsedChannels);
+        setChannels(received);
+
+        // A new version of the same playlist: carry favorites over
+        const sourceKey = source.sourceKey ?? source.sourceUrl;
+        const samePlaylist = sourceKey
+          ? previous.fileInfo?.sourceKey === sourceKey
+          : previous.fileInfo?.name === source.name;
+        if (samePlaylist) {
+          setFavorites((current) => {
+            const migrated = remapFavorites(
+              current,
+              Array.from(favoriteChannelsRef.current.values()),
+              received
+            );
+            return migrated.remapped > 0 ? migrated.favorites : current;
+          });
+        }
+
+        const size = source.size ?? bytesRead;
         setFileInfo({
-          name: file.name,
-          size: file.size,
+          name: source.name,
+          size,
+          encoding,
+          sourceUrl: source.sourceUrl,
+          sourceKey,
+          playlistAttributes,
+        });
+        setParseReport({
+          diagnostics,
+          diagnosticSummary,
+          skippedEntries,
+          playlistType,
+          hlsMedia,
         });
+        setShowAllDiagnostics(false);
 
-        toast.success(`Successfully loaded: ${parsedChannels.length} content`, {
-          description: `${formatFileSize(file.size)}`,
+        toast.success(`Successfully loaded: ${received.length} content`, {
+          description: `${formatFileSize(size)} • ${
+            ENCODING_LABELS[encoding]
+          }`,
         });
+        if (playlistType !== "m3u") {
+          toast.warning("This is an HLS playlist, not a channel list", {
+            description:
+              playlistType === "hls-master"
+                ? `${received.length} quality variants listed as entries`
+                : "It holds the segments of a single stream",
+          });
+        }
+        if (skippedEntries > 0) {
+          toast.warning(`${skippedEntries} entries skipped`, {
+            description: "See the parse report for line numbers",
+          });
+        }
 
         setTimeout(() => {
           setView("categories");
         }, 500);
       } catch (error) {
-        console.error("Error parsing M3U file:", error);
-        toast.error("Error processing file", {
+        console.error("Error parsing M3U playlist:", error);
+        toast.error("Error processing playlist", {
           description: error instanceof Error ? error.message : "Unknown error",
         });
       } finally {
@@ -262,25 +515,84 @@ export default function M3UPlayer() {
         setTimeout(() => setUploadProgress(0), 1000);
       }
     },
-    [parseM3U]
+    []
   );
 
-  const readFile = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
+  const handleFileUpload = useCallback(
+    (file: File, entry?: string): Promise<void> =>
+      // The raw file is streamed to the parser, which answers with NDJSON
+      // so channels show up while the upload is still running
+      loadPlaylist(
+        () => {
+          const params = new URLSearchParams({
+            format: "ndjson",
+            filename: file.name,
+            encoding: encodingOption,
+          });
+          if (entry) params.set("entry", entry);
+          return fetch(`/api/m3u/parse?${params.toString()}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/octet-stream" },
+            body: file,
+          });
+        },
+        {
+          name: entry ? `${file.name} / ${entry}` : file.name,
+          size: file.size,
+          withEntry: (choice) => handleFileUpload(file, choice),
+        }
+      ),
+    [loadPlaylist, encodingOption]
+  );
 
-      reader.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const percentComplete = (event.loaded / event.total) * 50;
-          setUploadProgress(percentComplete);
+  const handleUrlImport = useCallback(
+    (url: string, entry?: string): Promise<void> | undefined => {
+      let name = url;
+      try {
+        const parsed = new URL(url);
+        name =
+          decodeURIComponent(parsed.pathname.split("/").pop() || "") ||
+          parsed.hostname;
+      } catch {
+        toast.error("Please enter a valid URL");
+        return;
+      }
+
+      return loadPlaylist(
+        () =>
+          fetch("/api/m3u/parse?format=ndjson", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ url, encoding: encodingOption, entry }),
+          }),
+        {
+          name: entry ? `${name} / ${entry}` : name,
+          sourceUrl: url,
+          withEntry: (choice) => handleUrlImport(url, choice),
         }
-      };
+      );
+    },
+    [loadPlaylist, encodingOption]
+  );
 
-      reader.onload = (event) => resolve(event.target?.result as string);
-      reader.onerror = () => reject(new Error("Error reading file"));
-      reader.readAsText(file, "UTF-8");
-    });
-  };
+  const handleXtreamImport = useCallback(
+    (credentials: typeof xtreamForm, types: ContentType[]) =>
+      // Credentials go to our server only; it talks to the panel
+      loadPlaylist(
+        () =>
+          fetch("/api/m3u/parse?format=ndjson", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ xtream: { ...credentials, types } }),
+          }),
+        {
+          name: `Xtream: ${credentials.server}`,
+          // The password can change without the account's list changing
+          sourceKey: `xtream:${credentials.username}@${credentials.server}`,
+        }
+      ),
+    [loadPlaylist]
+  );
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
@@ -290,6 +602,16 @@ export default function M3UPlayer() {
     return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
   };
 
+  const formatDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    return h > 0
+      ? `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+      : `${m}:${String(s).padStart(2, "0")}`;
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(true);
@@ -304,16 +626,12 @@ export default function M3UPlayer() {
     setDragOver(false);
 
     const files = Array.from(e.dataTransfer.files);
-    const m3uFile = files.find(
-      (f) =>
-        f.name.toLowerCase().endsWith(".m3u") ||
-        f.name.toLowerCase().endsWith(".m3u8")
-    );
+    const m3uFile = files.find((f) => isSupportedUploadName(f.name));
 
     if (m3uFile) {
       handleFileUpload(m3uFile);
     } else if (files.length > 0) {
-      toast.error("Please upload .m3u or .m3u8 file");
+      toast.error("Please upload an .m3u, .m3u8, .gz, .xz or .zip file");
     }
   };
 
@@ -336,88 +654,258 @@ export default function M3UPlayer() {
     setFavorites(newFavorites);
   };
 
-  const downloadContent = async (channel: M3UChannel) => {
-    const channelId = channel.id;
+  const favoriteChannels = useMemo(
+    () => channels.filter((channel) => favorites.has(channel.id)),
+    [channels, favorites]
+  );
 
-    if (downloadingItems.has(channelId)) {
-      toast.info("This content is already downloading...");
-      return;
+  const loadSavedPlaylists = useCallback(async () => {
+    try {
+      const response = await fetch("/api/playlists");
+      if (!response.ok) return;
+      const data = await response.json();
+      setSavedPlaylists(data.playlists);
+    } catch (error) {
+      console.error("Failed to load saved playlists:", error);
     }
+  }, []);
 
-    setDownloadingItems((prev) => new Set(prev).add(channelId));
+  useEffect(() => {
+    loadSavedPlaylists();
+  }, [loadSavedPlaylists]);
 
+  // Saves the favorites as a new server playlist, or replaces the channels
+  // of an existing one
+  const saveFavoritesToServer = async (target?: SavedPlaylistSummary) => {
+    setIsSavingPlaylist(true);
     try {
-      const extension = getContentType(channel);
-
-      const safeName = (channel.tvgNameAttribute || channel.tvgName)
-        .replace(/[<>:"/\\|?*]/g, "")
-        .replace(/\s+/g, " ")
-        .trim()
-        .substring(0, 100);
-      const fileName = `${safeName}.${extension}`;
-      const downloadUrl = `/api/m3u/download?url=${encodeURIComponent(
-        channel.url
-      )}&filename=${encodeURIComponent(fileName)}`;
+      const response = await authorizedFetch(
+        target ? `/api/playlists/${target.id}` : "/api/playlists",
+        {
+          method: target ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: target ? undefined : savedPlaylistName,
+            playlistAttributes: fileInfo?.playlistAttributes || {},
+            channels: favoriteChannels,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save playlist");
+      }
 
+      toast.success(
+        target
+          ? `"${data.name}" updated with ${data.channelCount} favorites`
+          : `"${data.name}" saved with ${data.channelCount} favorites`
+      );
+      setSavedPlaylistName("");
+      await loadSavedPlaylists();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save playlist"
+      );
+    } finally {
+      setIsSavingPlaylist(false);
+    }
+  };
+
+  const removeSavedPlaylist = async (playlist: SavedPlaylistSummary) => {
+    try {
+      const response = await authorizedFetch(
+        `/api/playlists/${playlist.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to delete playlist");
+      }
+      toast.info(`"${playlist.name}" deleted`);
+      await loadSavedPlaylists();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete playlist"
+      );
+    }
+  };
+
+  // Downloads the favorites in the chosen format, generated by the server
+  const exportFavorites = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(
+        `/api/m3u/download?format=${exportFormat}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            playlistAttributes: fileInfo?.playlistAttributes || {},
+            channels: favoriteChannels,
+          }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to export favorites");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
       const a = document.createElement("a");
-      a.href = downloadUrl;
-      a.target = "_blank";
-      a.rel = "noopener noreferrer";
+      a.href = url;
+      a.download =
+        parseContentDispositionFilename(
+          response.headers.get("content-disposition")
+        ) ?? EXPORT_FORMAT_DETAILS[exportFormat].filename("favorites");
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
-
-      toast.info(`"${channel.tvgName}" downloading...`, {
-        description: `${extension.toUpperCase()} format`,
-      });
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
     } catch (error) {
-      console.error("Download error:", error);
-      toast.error("Download error", {
-        description: error instanceof Error ? error.message : "Unknown error",
-      });
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export favorites"
+      );
     } finally {
-      setDownloadingItems((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(channelId);
-        return newSet;
+      setIsExporting(false);
+    }
+  };
+
+  const copySavedPlaylistUrl = async (playlist: SavedPlaylistSummary) => {
+    const url = new URL(playlist.m3uUrl, window.location.origin).href;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Playlist URL copied");
+    } catch {
+      toast.info(url);
+    }
+  };
+
+  // Channels with a download that is queued, running or paused
+  const downloadingItems = useMemo(
+    () =>
+      new Set(
+        downloads
+          .filter(
+            (item) => item.status !== "completed" && item.status !== "failed"
+          )
+          .map((item) => item.channelId)
+      ),
+    [downloads]
+  );
+
+  // HLS entries are joined into one file on the server; `variant` picks the
+  // quality of a master playlist (highest by default)
+  const createDownloadRequest = (
+    channel: M3UChannel,
+    variant?: number
+  ): DownloadRequest => {
+    const extension = getMediaExtension(channel.url);
+    const safeName = (channel.tvgNameAttribute || channel.tvgName)
+      .replace(/[<>:"/\\|?*]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .substring(0, 100);
+    const isHls = extension === "m3u8";
+    // A first guess; the proxy settles the extension from the response
+    const fileName = isHls
+      ? `${safeName}.ts`
+      : extension
+      ? `${safeName}.${extension}`
+      : safeName;
+    const options = { filename: fileName, headers: getStreamHeaders(channel) };
+
+    return {
+      channelId: channel.id,
+      name: channel.tvgName,
+      url: isHls
+        ? buildHlsDownloadUrl(channel.url, { ...options, variant })
+        : buildProxyUrl(channel.url, options),
+      filename: fileName,
+    };
+  };
+
+  const downloadContent = async (channel: M3UChannel, variant?: number) => {
+    if (downloadingItems.has(channel.id)) {
+      toast.info("This content is already in the download queue");
+      return;
+    }
+
+    if (!isBrowserPlayable(channel)) {
+      toast.error("Cannot download", {
+        description: `${getSchemeLabel(channel)} streams cannot be fetched over HTTP`,
       });
+      return;
     }
+
+    // Ask for the quality first when an HLS master playlist offers several
+    if (getMediaExtension(channel.url) === "m3u8" && variant === undefined) {
+      try {
+        const response = await fetch(
+          await signProxyUrl(
+            buildHlsDownloadUrl(channel.url, {
+              headers: getStreamHeaders(channel),
+              info: true,
+            })
+          )
+        );
+        const info = await response.json();
+        if (!response.ok) throw new Error(info.error || "Unknown error");
+
+        if (info.type === "master" && info.variants.length > 1) {
+          setHlsChoice({ channel, variants: info.variants });
+          return;
+        }
+        if (info.type === "media" && !info.endList) {
+          toast.error("Cannot download", {
+            description: "Live HLS streams have no end to download",
+          });
+          return;
+        }
+      } catch (error) {
+        toast.error("Download error", {
+          description: error instanceof Error ? error.message : "Unknown error",
+        });
+        return;
+      }
+    }
+
+    setHlsChoice(null);
+    downloadQueue.enqueue([createDownloadRequest(channel, variant)]);
+    setQueueCollapsed(false);
+    toast.info(`"${channel.tvgName}" added to the download queue`);
   };
 
-  const getContentType = (channel: M3UChannel): string => {
-    const url = channel.url.toLowerCase();
-    const groupTitle = channel.groupTitle?.toLowerCase() || "";
+  // Queue every downloadable entry of the current (filtered) category
+  const downloadAll = () => {
+    const requests = filteredChannels
+      .filter(isBrowserPlayable)
+      .map(createDownloadRequest);
+    const added = downloadQueue.enqueue(requests);
+    setQueueCollapsed(false);
 
-    if (url.includes(".mp4") || url.includes(".m4v")) return "mp4";
-    if (url.includes(".mkv")) return "mkv";
-    if (url.includes(".avi")) return "avi";
-    if (url.includes(".mov")) return "mov";
-    if (url.includes(".flv")) return "flv";
-    if (url.includes(".wmv")) return "wmv";
-    if (url.includes(".webm")) return "webm";
-    if (url.includes(".m3u8")) return "m3u8";
-
-    if (
-      groupTitle.includes("film") ||
-      groupTitle.includes("movie") ||
-      groupTitle.includes("vod")
-    )
-      return "mp4";
-    if (
-      groupTitle.includes("dizi") ||
-      groupTitle.includes("series") ||
-      groupTitle.includes("show")
-    )
-      return "mp4";
-
-    return "mp4";
+    if (added > 0) {
+      toast.success(`${added} items added to the download queue`);
+    } else {
+      toast.info("Nothing new to download");
+    }
+  };
+
+  const saveDownload = async (item: DownloadItem) => {
+    try {
+      await downloadQueue.save(item.id);
+    } catch (error) {
+      toast.error("Download error", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   };
 
   const playContent = (channel: M3UChannel) => {
     // URL doğrulaması
-    if (!channel.url || !channel.url.startsWith("http")) {
-      toast.error("Invalid URL", {
-        description: "Content URL is not valid",
+    if (!channel.url || !isBrowserPlayable(channel)) {
+      toast.error("Cannot play in browser", {
+        description: `${getSchemeLabel(channel)} streams need an external player`,
       });
       return;
     }
@@ -442,7 +930,26 @@ export default function M3UPlayer() {
 
     setPlayingChannel(channel);
 
-    setTimeout(() => {
+    setTimeout(async () => {
+      // Tarayıcı User-Agent/Referer/Cookie gönderemez, bu yüzden özel
+      // başlık isteyen kanallar sunucu relay'i üzerinden oynatılır. Relay
+      // HLS playlist'lerindeki tüm adresleri kendine yönlendirir.
+      const streamHeaders = getStreamHeaders(channel);
+      let sourceUrl = channel.url;
+      if (Object.keys(streamHeaders).length > 0) {
+        try {
+          sourceUrl = await signProxyUrl(
+            buildStreamUrl(channel.url, { headers: streamHeaders })
+          );
+        } catch (e) {
+          setIsLoadingVideo(false);
+          toast.error("Video could not be prepared", {
+            description: e instanceof Error ? e.message : "Unknown error",
+          });
+          return;
+        }
+      }
+
       if (!videoRef.current) {
         console.error("Video element not available");
         setIsLoadingVideo(false);
@@ -499,7 +1006,7 @@ export default function M3UPlayer() {
 
           hlsRef.current = hls;
 
-          hls.loadSource(channel.url);
+          hls.loadSource(sourceUrl);
           hls.attachMedia(videoRef.current);
 
           hls.on(Hls.Events.MANIFEST_PARSED, () => {
@@ -555,7 +1062,7 @@ export default function M3UPlayer() {
         } else {
           console.warn("HLS.js not supported, trying native playback");
           try {
-            videoRef.current.src = channel.url;
+            videoRef.current.src = sourceUrl;
             videoRef.current.load();
             videoRef.current.play().catch((e) => {
               console.error("Native playback failed:", e);
@@ -578,7 +1085,7 @@ export default function M3UPlayer() {
         // MP4, MKV gibi dosyalar için native playback
         console.log("Using native HTML5 video playback");
         try {
-          videoRef.current.src = channel.url;
+          videoRef.current.src = sourceUrl;
           videoRef.current.load();
           videoRef.current.play().catch((e) => {
             console.error("Native playback failed:", e);
@@ -624,6 +1131,7 @@ export default function M3UPlayer() {
   const clearAllData = () => {
     setChannels([]);
     setFileInfo(null);
+    setParseReport(null);
     setView("upload");
     setSelectedCategory(null);
     localStorage.removeItem("m3u_channels");
@@ -635,7 +1143,7 @@ export default function M3UPlayer() {
     const groupMap = new Map<string, number>();
 
     channels.forEach((channel) => {
-      const groupName = channel.groupTitle || "Diğer";
+      const groupName = channel.groupTitle || DEFAULT_GROUP_TITLE;
       groupMap.set(groupName, (groupMap.get(groupName) || 0) + 1);
     });
 
@@ -644,33 +1152,40 @@ export default function M3UPlayer() {
       .sort((a, b) => a.name.localeCompare(b.name));
   }, [channels]);
 
+  // #EXTINF durations of -1/0 mean live or unknown
+  const getRuntime = (channel: M3UChannel) =>
+    channel.duration && channel.duration > 0 ? channel.duration : 0;
+
   const filteredChannels = useMemo(() => {
     let result = channels.filter((c) => c.groupTitle === selectedCategory);
 
     if (contentFilter !== "all") {
-      const groupTitle = (channel) => channel.groupTitle?.toLowerCase() || "";
-      if (contentFilter === "vod") {
-        result = result.filter(
-          (c) =>
-            groupTitle(c).includes("vod") ||
-            groupTitle(c).includes("film") ||
-            groupTitle(c).includes("movie")
-        );
-      } else if (contentFilter === "series") {
-        result = result.filter(
-          (c) =>
-            groupTitle(c).includes("dizi") ||
-            groupTitle(c).includes("series") ||
-            groupTitle(c).includes("show")
-        );
-      } else {
-        result = result.filter(
-          (c) =>
-            !groupTitle(c).includes("vod") &&
-            !groupTitle(c).includes("film") &&
-            !groupTitle(c).includes("dizi")
-        );
-      }
+      result = result.filter((c) => matchesContentType(c, contentFilter));
+    }
+
+    if (durationFilter !== "all") {
+      // Live entries (-1) and unknown durations never match a runtime range
+      const [min, max] = {
+        "under-30": [1, 30 * 60],
+        "30-90": [30 * 60, 90 * 60],
+        "over-90": [90 * 60, Infinity],
+      }[durationFilter];
+      result = result.filter(
+        (c) => (c.duration ?? 0) >= min && (c.duration ?? 0) < max
+      );
+    }
+
+    if (sortOrder === "name") {
+      result = [...result].sort((a, b) => a.tvgName.localeCompare(b.tvgName));
+    } else if (sortOrder !== "playlist") {
+      const direction = sortOrder === "duration-desc" ? -1 : 1;
+      result = [...result].sort((a, b) => {
+        const da = getRuntime(a);
+        const db = getRuntime(b);
+        // Entries without a runtime go last either way
+        if (!da || !db) return (da ? 0 : 1) - (db ? 0 : 1);
+        return (da - db) * direction;
+      });
     }
 
     if (!debouncedSearchQuery) return result;
@@ -682,11 +1197,18 @@ export default function M3UPlayer() {
         channel.tvgCountry?.toLowerCase().includes(query) ||
         channel.tvgLanguage?.toLowerCase().includes(query)
     );
-  }, [channels, selectedCategory, debouncedSearchQuery, contentFilter]);
+  }, [
+    channels,
+    selectedCategory,
+    debouncedSearchQuery,
+    contentFilter,
+    durationFilter,
+    sortOrder,
+  ]);
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearchQuery, contentFilter]);
+  }, [debouncedSearchQuery, contentFilter, durationFilter, sortOrder]);
 
   const { displayedChannels, totalPages } = useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
@@ -697,7 +1219,11 @@ export default function M3UPlayer() {
     };
   }, [filteredChannels, currentPage, itemsPerPage]);
 
+  const getSchemeLabel = (channel: M3UChannel) =>
+    getStreamScheme(channel.url).toUpperCase();
+
   const isLiveContent = (channel: M3UChannel) => {
+    if (channel.contentType) return channel.contentType === "live";
     const url = channel.url.toLowerCase();
     const groupTitle = channel.groupTitle?.toLowerCase() || "";
     return (
@@ -710,6 +1236,154 @@ export default function M3UPlayer() {
     );
   };
 
+  const ChannelAttributes = ({ channel }: { channel: M3UChannel }) => {
+    const entries = Object.entries(channel.attributes || {}).filter(
+      ([key, value]) => value && key.toLowerCase() !== "tvg-logo"
+    );
+    const variant = channel.hlsVariant;
+    if (variant) {
+      if (variant.bandwidth) {
+        entries.push(["bandwidth", formatBandwidth(variant.bandwidth)]);
+      }
+      if (variant.resolution) entries.push(["resolution", variant.resolution]);
+      if (variant.frameRate) entries.push(["fps", String(variant.frameRate)]);
+      if (variant.codecs) entries.push(["codecs", variant.codecs]);
+    }
+    if (entries.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {entries.map(([key, value]) => (
+          <Badge
+            key={key}
+            variant="outline"
+            className="text-xs font-normal max-w-full"
+            title={`${key}="${value}"`}
+          >
+            <span className="text-muted-foreground mr-1">{key}</span>
+            <span className="truncate">{value}</span>
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  const DiagnosticsPanel = ({ report }: { report: ParseReport }) => {
+    const visible = showAllDiagnostics
+      ? report.diagnostics
+      : report.diagnostics.slice(0, 10);
+    const total = report.diagnosticSummary.reduce((sum, d) => sum + d.count, 0);
+
+    return (
+      <Alert
+        className="mb-6"
+        variant={report.skippedEntries > 0 ? "destructive" : "default"}
+      >
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle className="flex items-center justify-between gap-2">
+          <span>
+            Parse report: {report.skippedEntries} entries skipped, {total}{" "}
+            issues
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => setParseReport(null)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </AlertTitle>
+        <AlertDescription>
+          <ul className="space-y-1 mb-3">
+            {report.diagnosticSummary.map((summary) => (
+              <li key={summary.code} className="flex items-center gap-2">
+                <Badge
+                  variant={
+                    summary.severity === "error" ? "destructive" : "secondary"
+                  }
+                  className="text-xs"
+                >
+                  {summary.count}
+                </Badge>
+                <span>{summary.reason}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="w-full max-h-64 overflow-auto rounded border bg-muted/30 font-mono text-xs">
+            {visible.map((diagnostic, index) => (
+              <div
+                key={`${diagnostic.line}-${diagnostic.code}-${index}`}
+                className="flex gap-3 px-2 py-1 border-b last:border-b-0"
+                title={diagnostic.reason}
+              >
+                <span
+                  className={`shrink-0 w-16 text-right ${
+                    diagnostic.severity === "error"
+                      ? "text-destructive"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  {diagnostic.line > 0 ? `L${diagnostic.line}` : "–"}
+                </span>
+                <span className="truncate">{diagnostic.raw}</span>
+              </div>
+            ))}
+          </div>
+          {report.diagnostics.length > 10 && (
+            <Button
+              size="sm"
+              variant="link"
+              className="px-0"
+              onClick={() => setShowAllDiagnostics((v) => !v)}
+            >
+              {showAllDiagnostics
+                ? "Show less"
+                : `Show all ${report.diagnostics.length} lines`}
+            </Button>
+          )}
+          {total > report.diagnostics.length && (
+            <p className="text-xs text-muted-foreground">
+              Only the first {report.diagnostics.length} issues are listed
+            </p>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
+  const HlsPlaylistNotice = ({ report }: { report: ParseReport }) => (
+    <Alert className="mb-6">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {report.playlistType === "hls-master"
+          ? "HLS master playlist"
+          : "HLS media playlist"}
+      </AlertTitle>
+      <AlertDescription>
+        {report.playlistType === "hls-master" ? (
+          <p>
+            This file describes one stream in several qualities rather than a
+            list of channels. Each variant is listed under &quot;
+            {HLS_VARIANT_GROUP_TITLE}&quot; and can be played or exported like a
+            channel.
+          </p>
+        ) : (
+          <p>
+            This file holds the segments of a single stream
+            {report.hlsMedia &&
+              ` (${report.hlsMedia.segmentCount} segments, ${formatDuration(
+                report.hlsMedia.totalDuration
+              )}${report.hlsMedia.endList ? "" : ", live window"})`}
+            . {channels.length > 0
+              ? "It is listed as one entry."
+              : "Load it from its URL to play it."}
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+
   const CategoryCard = ({ category }: { category: M3UGroup }) => (
     <Card
       className="cursor-pointer hover:shadow-lg hover:border-primary/50 transition-all duration-200 group"
@@ -764,6 +1438,25 @@ export default function M3UPlayer() {
             CANLI
           </Badge>
         )}
+        {!isBrowserPlayable(channel) && (
+          <Badge
+            variant="secondary"
+            className="absolute top-2 right-2"
+            title="This stream cannot be played in the browser"
+          >
+            <Ban className="h-3 w-3 mr-1" />
+            {getSchemeLabel(channel)}
+          </Badge>
+        )}
+        {getRuntime(channel) > 0 && (
+          <Badge
+            variant="secondary"
+            className="absolute bottom-2 right-2 bg-black/70 text-white hover:bg-black/70"
+          >
+            <Clock className="h-3 w-3 mr-1" />
+            {formatDuration(getRuntime(channel))}
+          </Badge>
+        )}
         <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
           <div className="absolute bottom-0 left-0 right-0 p-3 flex gap-2">
             <Button
@@ -773,6 +1466,7 @@ export default function M3UPlayer() {
                 e.stopPropagation();
                 playContent(channel);
               }}
+              disabled={!isBrowserPlayable(channel)}
             >
               <Play className="h-4 w-4 mr-1" />
               Play
@@ -784,7 +1478,9 @@ export default function M3UPlayer() {
                 e.stopPropagation();
                 downloadContent(channel);
               }}
-              disabled={downloadingItems.has(channel.id)}
+              disabled={
+                downloadingItems.has(channel.id) || !isBrowserPlayable(channel)
+              }
             >
               {downloadingItems.has(channel.id) ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -909,6 +1605,7 @@ export default function M3UPlayer() {
                   <p className="text-sm text-muted-foreground">
                     {playingChannel.groupTitle}
                   </p>
+                  <ChannelAttributes channel={playingChannel} />
                 </div>
                 <Button size="icon" variant="ghost" onClick={closePlayer}>
                   <X className="h-6 w-6" />
@@ -947,6 +1644,23 @@ export default function M3UPlayer() {
           )}
         </div>
 
+        {!proxyConfigured && (
+          <Alert className="mb-6" variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>The server is not set up for streaming yet</AlertTitle>
+            <AlertDescription>
+              <p>
+                Downloads, proxied exports and channels that need their own
+                request headers stay off until the server has{" "}
+                <code>M3U_ACCESS_TOKEN</code> set, or{" "}
+                <code>M3U_ALLOW_ANONYMOUS_PROXY=1</code> when it is only
+                reachable from a trusted network. Set one (see{" "}
+                <code>.env.example</code>) and restart the server.
+              </p>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {view === "upload" && (
           <Card>
             <CardHeader>
@@ -968,7 +1682,7 @@ export default function M3UPlayer() {
               >
                 <input
                   type="file"
-                  accept=".m3u,.m3u8"
+                  accept={[".m3u", ".m3u8", ...COMPRESSED_EXTENSIONS].join(",")}
                   onChange={handleFileInputChange}
                   className="hidden"
                   id="file-input"
@@ -987,13 +1701,151 @@ export default function M3UPlayer() {
                         Drag and drop file here or click to select
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        Channel list in M3U or M3U8 format
+                        Channel list in M3U or M3U8 format, optionally
+                        gzip, xz or zip compressed
                       </p>
                     </>
                   )}
                 </label>
               </div>
 
+              <form
+                className="mt-4 flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (playlistUrl.trim()) handleUrlImport(playlistUrl.trim());
+                }}
+              >
+                <div className="relative flex-1">
+                  <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="url"
+                    placeholder="https://provider.example/playlist.m3u"
+                    value={playlistUrl}
+                    onChange={(e) => setPlaylistUrl(e.target.value)}
+                    className="pl-10"
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={isLoading || !playlistUrl.trim()}
+                >
+                  Load from URL
+                </Button>
+              </form>
+
+              <form
+                className="mt-4 rounded-xl border p-4 space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleXtreamImport(xtreamForm, xtreamTypes);
+                }}
+              >
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <Server className="h-4 w-4" />
+                  Xtream Codes
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <Input
+                    placeholder="http://panel.example:8080"
+                    value={xtreamForm.server}
+                    onChange={(e) =>
+                      setXtreamForm((f) => ({ ...f, server: e.target.value }))
+                    }
+                    disabled={isLoading}
+                  />
+                  <Input
+                    placeholder="Username"
+                    autoComplete="username"
+                    value={xtreamForm.username}
+                    onChange={(e) =>
+                      setXtreamForm((f) => ({ ...f, username: e.target.value }))
+                    }
+                    disabled={isLoading}
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Password"
+                    autoComplete="current-password"
+                    value={xtreamForm.password}
+                    onChange={(e) =>
+                      setXtreamForm((f) => ({ ...f, password: e.target.value }))
+                    }
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                  {(
+                    [
+                      ["live", "Live"],
+                      ["vod", "Movies"],
+                      ["series", "Series"],
+                    ] as [ContentType, string][]
+                  ).map(([type, label]) => (
+                    <Label
+                      key={type}
+                      className="flex items-center gap-2 text-sm font-normal"
+                    >
+                      <Checkbox
+                        checked={xtreamTypes.includes(type)}
+                        onCheckedChange={(checked) =>
+                          setXtreamTypes((types) =>
+                            checked
+                              ? [...types, type]
+                              : types.filter((t) => t !== type)
+                          )
+                        }
+                        disabled={isLoading}
+                      />
+                      {label}
+                    </Label>
+                  ))}
+                  <Button
+                    type="submit"
+                    className="ml-auto"
+                    disabled={
+                      isLoading ||
+                      !xtreamForm.server.trim() ||
+                      !xtreamForm.username ||
+                      !xtreamForm.password ||
+                      xtreamTypes.length === 0
+                    }
+                  >
+                    Import from panel
+                  </Button>
+                </div>
+              </form>
+
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <Label
+                  htmlFor="encoding-select"
+                  className="text-sm text-muted-foreground"
+                >
+                  Encoding
+                </Label>
+                <Select
+                  value={encodingOption}
+                  onValueChange={(value) =>
+                    setEncodingOption(value as EncodingOption)
+                  }
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="encoding-select" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(["auto", ...PLAYLIST_ENCODINGS] as EncodingOption[]).map(
+                      (option) => (
+                        <SelectItem key={option} value={option}>
+                          {ENCODING_LABELS[option]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {isProcessing && uploadProgress > 0 && (
                 <div className="mt-6 space-y-2">
                   <div className="flex items-center justify-between text-sm">
@@ -1006,12 +1858,74 @@ export default function M3UPlayer() {
                 </div>
               )}
 
+              {archiveChoice && (
+                <Alert className="mt-4">
+                  <FolderOpen className="h-4 w-4" />
+                  <AlertTitle className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      {archiveChoice.name} contains several playlists
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      onClick={() => setArchiveChoice(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </AlertTitle>
+                  <AlertDescription>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {archiveChoice.entries.map((entry) => (
+                        <Button
+                          key={entry}
+                          size="sm"
+                          variant="outline"
+                          disabled={isLoading}
+                          onClick={() => archiveChoice.load(entry)}
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          {entry}
+                        </Button>
+                      ))}
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {fileInfo && (
                 <Alert className="mt-4">
                   <FileText className="h-4 w-4" />
                   <AlertDescription className="ml-2">
                     <span className="font-medium">{fileInfo.name}</span> (
                     {formatFileSize(fileInfo.size)}) - {channels.length} content
+                    {fileInfo.encoding &&
+                      ` • ${ENCODING_LABELS[fileInfo.encoding]}`}
+                    {fileInfo.sourceUrl && (
+                      <span className="block text-xs text-muted-foreground truncate">
+                        {fileInfo.sourceUrl}
+                      </span>
+                    )}
+                    {fileInfo.playlistAttributes &&
+                      Object.keys(fileInfo.playlistAttributes).length > 0 && (
+                        <span className="flex flex-wrap gap-1 mt-2">
+                          {Object.entries(fileInfo.playlistAttributes).map(
+                            ([key, value]) => (
+                              <Badge
+                                key={key}
+                                variant="outline"
+                                className="text-xs font-normal max-w-full"
+                                title={`${key}="${value}"`}
+                              >
+                                <span className="text-muted-foreground mr-1">
+                                  {key}
+                                </span>
+                                <span className="truncate">{value}</span>
+                              </Badge>
+                            )
+                          )}
+                        </span>
+                      )}
                   </AlertDescription>
                 </Alert>
               )}
@@ -1021,18 +1935,171 @@ export default function M3UPlayer() {
 
         {view === "categories" && (
           <>
+            {parseReport && parseReport.playlistType !== "m3u" && (
+              <HlsPlaylistNotice report={parseReport} />
+            )}
+            {parseReport && parseReport.diagnostics.length > 0 && (
+              <DiagnosticsPanel report={parseReport} />
+            )}
+
             <Card className="mb-6">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FolderOpen className="h-5 w-5" />
                   Categories
+                  {fileInfo?.sourceUrl && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-auto"
+                      onClick={() => handleUrlImport(fileInfo.sourceUrl!)}
+                      disabled={isLoading}
+                      title={fileInfo.sourceUrl}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 mr-2 ${
+                          isLoading ? "animate-spin" : ""
+                        }`}
+                      />
+                      Refresh
+                    </Button>
+                  )}
                 </CardTitle>
                 <p className="text-sm text-muted-foreground">
                   {categories.length} categories • {channels.length} content
                 </p>
+                {isProcessing && (
+                  <div className="flex items-center gap-3 pt-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                    <Progress value={uploadProgress} className="h-2 flex-1" />
+                    <span className="text-sm font-medium">
+                      {Math.round(uploadProgress)}%
+                    </span>
+                  </div>
+                )}
               </CardHeader>
             </Card>
 
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Server className="h-5 w-5" />
+                  Server Playlists
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Save your favorites under a name; IPTV players can load the
+                  playlist URL and always get the latest version, or download
+                  them as a file
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Playlist name"
+                    value={savedPlaylistName}
+                    onChange={(e) => setSavedPlaylistName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (
+                        e.key === "Enter" &&
+                        savedPlaylistName.trim() &&
+                        favoriteChannels.length > 0
+                      ) {
+                        saveFavoritesToServer();
+                      }
+                    }}
+                  />
+                  <Button
+                    onClick={() => saveFavoritesToServer()}
+                    disabled={
+                      isSavingPlaylist ||
+                      !savedPlaylistName.trim() ||
+                      favoriteChannels.length === 0
+                    }
+                  >
+                    {isSavingPlaylist ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Heart className="h-4 w-4 mr-2" />
+                    )}
+                    Save {favoriteChannels.length} favorites
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Select
+                    value={exportFormat}
+                    onValueChange={(value) =>
+                      setExportFormat(value as ExportFormat)
+                    }
+                  >
+                    <SelectTrigger className="flex-1" title="Export format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_FORMATS.map((format) => (
+                        <SelectItem key={format} value={format}>
+                          {EXPORT_FORMAT_DETAILS[format].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={exportFavorites}
+                    disabled={isExporting || favoriteChannels.length === 0}
+                  >
+                    {isExporting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    Download favorites
+                  </Button>
+                </div>
+                {savedPlaylists.map((playlist) => (
+                  <div
+                    key={playlist.id}
+                    className="flex items-center gap-2 rounded-lg border p-2"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{playlist.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {playlist.channelCount} content •{" "}
+                        {new Date(playlist.updatedAt).toLocaleString()} •{" "}
+                        {playlist.m3uUrl}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => copySavedPlaylistUrl(playlist)}
+                    >
+                      <Link className="h-4 w-4 mr-1" />
+                      Copy URL
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => saveFavoritesToServer(playlist)}
+                      disabled={
+                        isSavingPlaylist || favoriteChannels.length === 0
+                      }
+                      title="Replace its channels with the current favorites"
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Update
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeSavedPlaylist(playlist)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {categories.map((category) => (
                 <CategoryCard key={category.name} category={category} />
@@ -1071,10 +2138,50 @@ export default function M3UPlayer() {
               </div>
             </div>
 
-            <div className="mb-6 flex items-center justify-between">
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
               <p className="text-sm text-muted-foreground">
                 {filteredChannels.length} content found
               </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={downloadAll}
+                  disabled={!filteredChannels.some(isBrowserPlayable)}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download all
+                </Button>
+                <Select
+                  value={durationFilter}
+                  onValueChange={(value) =>
+                    setDurationFilter(value as DurationFilter)
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any runtime</SelectItem>
+                    <SelectItem value="under-30">Under 30 min</SelectItem>
+                    <SelectItem value="30-90">30-90 min</SelectItem>
+                    <SelectItem value="over-90">Over 90 min</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={sortOrder}
+                  onValueChange={(value) => setSortOrder(value as SortOrder)}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="playlist">Playlist order</SelectItem>
+                    <SelectItem value="name">Name</SelectItem>
+                    <SelectItem value="duration-desc">Longest first</SelectItem>
+                    <SelectItem value="duration-asc">Shortest first</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {viewMode === "grid" ? (
@@ -1110,10 +2217,23 @@ export default function M3UPlayer() {
                                 CANLI
                               </Badge>
                             )}
+                            {!isBrowserPlayable(channel) && (
+                              <Badge
+                                variant="secondary"
+                                className="text-xs"
+                                title="This stream cannot be played in the browser"
+                              >
+                                <Ban className="h-3 w-3 mr-1" />
+                                {getSchemeLabel(channel)}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-xs text-muted-foreground">
                             {channel.groupTitle}
+                            {getRuntime(channel) > 0 &&
+                              ` • ${formatDuration(getRuntime(channel))}`}
                           </p>
+                          <ChannelAttributes channel={channel} />
                         </div>
                         <div className="flex items-center gap-1">
                           <Button
@@ -1135,6 +2255,7 @@ export default function M3UPlayer() {
                             variant="ghost"
                             className="h-8 w-8"
                             onClick={() => playContent(channel)}
+                            disabled={!isBrowserPlayable(channel)}
                           >
                             <Play className="h-4 w-4" />
                           </Button>
@@ -1143,7 +2264,10 @@ export default function M3UPlayer() {
                             variant="ghost"
                             className="h-8 w-8"
                             onClick={() => downloadContent(channel)}
-                            disabled={downloadingItems.has(channel.id)}
+                            disabled={
+                              downloadingItems.has(channel.id) ||
+                              !isBrowserPlayable(channel)
+                            }
                           >
                             {downloadingItems.has(channel.id) ? (
                               <Loader2 className="h-4 w-4 animate-spin" />
@@ -1224,6 +2348,254 @@ export default function M3UPlayer() {
           </Card>
         )}
       </div>
+
+      <AlertDialog
+        open={tokenPrompt !== null}
+        onOpenChange={(open) => {
+          if (!open) closeTokenPrompt(null);
+        }}
+      >
+        <AlertDialogContent>
+          <form
+            className="grid gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              closeTokenPrompt(accessToken.trim() || null);
+            }}
+          >
+            <AlertDialogHeader>
+              <AlertDialogTitle>Access token required</AlertDialogTitle>
+              <AlertDialogDescription>
+                This server only proxies streams and downloads for signed-in
+                users. Enter the access token set in M3U_ACCESS_TOKEN.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <Input
+              type="password"
+              autoFocus
+              placeholder="Access token"
+              value={accessToken}
+              onChange={(e) => setAccessToken(e.target.value)}
+            />
+            <AlertDialogFooter>
+              <AlertDialogCancel type="button">Cancel</AlertDialogCancel>
+              <Button type="submit" disabled={!accessToken.trim()}>
+                Sign in
+              </Button>
+            </AlertDialogFooter>
+          </form>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {hlsChoice && (
+        <Alert className="fixed bottom-4 left-4 z-50 w-[calc(100%-2rem)] sm:w-96 bg-background shadow-xl">
+          <Film className="h-4 w-4" />
+          <AlertTitle className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              Choose quality: {hlsChoice.channel.tvgName}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => setHlsChoice(null)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </AlertTitle>
+          <AlertDescription>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {[...hlsChoice.variants]
+                .sort((a, b) => b.bandwidth - a.bandwidth)
+                .map((variant) => (
+                  <Button
+                    key={variant.index}
+                    size="sm"
+                    variant="outline"
+                    disabled={variant.separateAudio}
+                    title={
+                      variant.separateAudio
+                        ? "Audio is in a separate track and cannot be downloaded"
+                        : undefined
+                    }
+                    onClick={() =>
+                      downloadContent(hlsChoice.channel, variant.index)
+                    }
+                  >
+                    {variant.resolution
+                      ? `${variant.resolution.split("x")[1]}p • `
+                      : ""}
+                    {formatBandwidth(variant.bandwidth)}
+                  </Button>
+                ))}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {downloads.length > 0 && (
+        <Card className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] sm:w-96 shadow-xl">
+          <CardHeader className="py-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Download className="h-4 w-4" />
+              Downloads
+              <Badge variant="secondary">
+                {
+                  downloads.filter((item) => item.status === "completed")
+                    .length
+                }
+                /{downloads.length}
+              </Badge>
+              <div className="ml-auto flex items-center gap-1">
+                <Select
+                  value={String(downloadConcurrency)}
+                  onValueChange={(value) =>
+                    downloadQueue.setConcurrency(Number(value))
+                  }
+                >
+                  <SelectTrigger className="h-8 w-20" title="Parallel downloads">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      { length: MAX_DOWNLOAD_CONCURRENCY },
+                      (_, i) => i + 1
+                    ).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count}x
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => downloadQueue.clearFinished()}
+                  title="Clear completed"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => setQueueCollapsed((collapsed) => !collapsed)}
+                >
+                  {queueCollapsed ? (
+                    <ChevronUp className="h-4 w-4" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          {!queueCollapsed && (
+            <CardContent className="max-h-80 overflow-y-auto space-y-3 pb-4">
+              {downloads.map((item) => (
+                <div key={item.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p
+                      className="flex-1 min-w-0 text-sm font-medium truncate"
+                      title={item.filename}
+                    >
+                      {item.name}
+                    </p>
+                    {(item.status === "queued" ||
+                      item.status === "downloading") && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => downloadQueue.pause(item.id)}
+                        title="Pause"
+                      >
+                        <Pause className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {item.status === "paused" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => downloadQueue.resume(item.id)}
+                        title="Resume"
+                      >
+                        <Play className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {item.status === "failed" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => downloadQueue.resume(item.id)}
+                        title="Retry"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {item.status === "completed" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => saveDownload(item)}
+                        title="Save file"
+                      >
+                        <Download className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      onClick={() => downloadQueue.remove(item.id)}
+                      title="Remove"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <Progress
+                    value={
+                      item.status === "completed"
+                        ? 100
+                        : item.totalBytes
+                        ? Math.min(
+                            99,
+                            (item.bytesReceived / item.totalBytes) * 100
+                          )
+                        : 0
+                    }
+                    className="h-1.5"
+                  />
+                  <p className="text-xs text-muted-foreground truncate">
+                    {item.status === "queued" && item.retryAt
+                      ? `Retrying (attempt ${item.attempts + 1})`
+                      : {
+                          queued: "Queued",
+                          downloading: "Downloading",
+                          paused: "Paused",
+                          completed: "Completed",
+                          failed: "Failed",
+                        }[item.status]}{" "}
+                    • {formatFileSize(item.bytesReceived)}
+                    {item.totalBytes
+                      ? ` / ${item.totalEstimated ? "~" : ""}${formatFileSize(
+                          item.totalBytes
+                        )}`
+                      : ""}
+                    {item.error && item.status !== "completed"
+                      ? ` • ${item.error}`
+                      : ""}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from 'react'
+import {
+  DEFAULT_DOWNLOAD_CONCURRENCY,
+  DownloadQueue,
+  type DownloadQueueSnapshot,
+} from '@/lib/download-queue'
+import { signProxyUrl } from '@/lib/stream-proxy'
+
+// One queue per tab, shared by every component that uses it. Items keep the
+// unsigned proxy link, which is signed again for every attempt
+const queue = new DownloadQueue({ prepareUrl: signProxyUrl })
+
+const SERVER_SNAPSHOT: DownloadQueueSnapshot = {
+  items: [],
+  concurrency: DEFAULT_DOWNLOAD_CONCURRENCY,
+}
+
+/**
+ * Subscribe to the download queue
+ * @returns The current items and concurrency, plus the queue for actions
+ */
+export function useDownloadQueue() {
+  const snapshot = useSyncExternalStore(
+    (listener) => queue.subscribe(listener),
+    () => queue.getSnapshot(),
+    () => SERVER_SNAPSHOT
+  )
+
+  return { ...snapshot, queue }
+}
@@ -0,0 +1,9 @@
+/**
+ * Runs once when the server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startExportSweep } = await import("@/lib/export-store");
+    startExportSweep();
+  }
+}
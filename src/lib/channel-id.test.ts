@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ChannelIdGenerator,
+  remapFavorites,
+  toFavoriteChannel,
+} from "./channel-id";
+import { parseM3U, type M3UChannel } from "./m3u-parser";
+
+function playlist(...entries: string[]): M3UChannel[] {
+  return parseM3U(`#EXTM3U\n${entries.join("\n")}\n`).channels;
+}
+
+const TRT = '#EXTINF:-1 tvg-id="trt1.tr" group-title="Ulusal",TRT 1';
+const ATV = '#EXTINF:-1 group-title="Ulusal",ATV';
+
+describe("ChannelIdGenerator", () => {
+  test("gives an entry the same ID wherever it sits", () => {
+    const first = playlist(TRT, "http://a.example/trt", ATV, "http://a/atv");
+    const moved = playlist(ATV, "http://a/atv", TRT, "http://a.example/trt");
+
+    expect(moved.map((channel) => channel.id)).toEqual([
+      first[1].id,
+      first[0].id,
+    ]);
+  });
+
+  test("numbers exact duplicates in order of appearance", () => {
+    const ids = new ChannelIdGenerator();
+    const channel = { tvgName: "A", url: "http://a.example/" };
+    const base = ids.next(channel);
+
+    expect(ids.next(channel)).toBe(`${base}-2`);
+    expect(ids.next(channel)).toBe(`${base}-3`);
+    expect(new ChannelIdGenerator().next(channel)).toBe(base);
+  });
+});
+
+describe("remapFavorites", () => {
+  const previous = playlist(
+    TRT,
+    "http://a.example/trt?token=1",
+    ATV,
+    "http://a.example/atv"
+  );
+
+  function remap(favorites: string[], next: M3UChannel[]) {
+    return remapFavorites(
+      new Set(favorites),
+      previous.map(toFavoriteChannel),
+      next
+    );
+  }
+
+  test("keeps favorites whose ID still exists", () => {
+    const result = remap([previous[0].id], previous);
+    expect([...result.favorites]).toEqual([previous[0].id]);
+    expect(result.remapped).toBe(0);
+  });
+
+  test("follows a channel by tvg-id and name when its URL changes", () => {
+    const next = playlist(TRT, "http://a.example/trt?token=2");
+    const result = remap([previous[0].id], next);
+
+    expect([...result.favorites]).toEqual([next[0].id]);
+    expect(result.remapped).toBe(1);
+  });
+
+  test("follows a channel by URL when it was renamed", () => {
+    const next = playlist(
+      '#EXTINF:-1 group-title="Ulusal",ATV HD',
+      "http://a.example/atv"
+    );
+    expect([...remap([previous[1].id], next).favorites]).toEqual([next[0].id]);
+  });
+
+  test("follows a channel by name and group as a last resort", () => {
+    const next = playlist(ATV, "http://b.example/atv");
+    expect([...remap([previous[1].id], next).favorites]).toEqual([next[0].id]);
+  });
+
+  test("keeps favorites it cannot match", () => {
+    const next = playlist('#EXTINF:-1 group-title="Spor",S Sport', "http://s/");
+    const result = remap([previous[1].id, "unknown"], next);
+
+    expect([...result.favorites]).toEqual([previous[1].id, "unknown"]);
+    expect(result.remapped).toBe(0);
+  });
+
+  test("maps onto the first of several duplicates", () => {
+    const next = playlist(ATV, "http://b/1", ATV, "http://b/2");
+    expect([...remap([previous[1].id], next).favorites]).toEqual([next[0].id]);
+  });
+});
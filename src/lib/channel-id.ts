@@ -0,0 +1,107 @@
+import type { M3UChannel } from "@/lib/m3u-parser";
+
+type ChannelIdentity = Pick<
+  M3UChannel,
+  "tvgId" | "tvgName" | "groupTitle" | "url"
+>;
+
+/** What remapFavorites needs to know about a favorite from an older list */
+export type FavoriteChannel = ChannelIdentity & Pick<M3UChannel, "id">;
+
+export function toFavoriteChannel(channel: M3UChannel): FavoriteChannel {
+  const { id, tvgId, tvgName, groupTitle, url } = channel;
+  return { id, tvgId, tvgName, groupTitle, url };
+}
+
+/**
+ * Hands out deterministic channel IDs derived from the channel's content, so
+ * the same entry gets the same ID wherever it sits in the playlist. Exact
+ * duplicates get a counter suffix in order of appearance.
+ */
+export class ChannelIdGenerator {
+  private seen = new Map<string, number>();
+
+  next(channel: ChannelIdentity): string {
+    const base = `ch-${hashString(
+      [
+        channel.tvgId || "",
+        channel.tvgName,
+        channel.groupTitle || "",
+        channel.url,
+      ].join("\u0000")
+    )}`;
+
+    const count = (this.seen.get(base) || 0) + 1;
+    this.seen.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  }
+}
+
+/**
+ * 53-bit string hash (cyrb53), rendered in base 36. Runs the same in the
+ * browser and on the server, unlike crypto.subtle which is async.
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Carry favorites over to a new version of the same playlist. Favorites
+ * whose ID no longer exists are matched to the new list by tvg-id and name,
+ * then by URL, then by name and group; unmatched ones are kept as they are.
+ * `previous` needs to hold at least the favorites of the old list.
+ */
+export function remapFavorites(
+  favorites: Set<string>,
+  previous: FavoriteChannel[],
+  next: M3UChannel[]
+): { favorites: Set<string>; remapped: number } {
+  const nextIds = new Set(next.map((channel) => channel.id));
+  const previousById = new Map(previous.map((channel) => [channel.id, channel]));
+
+  const keys = (channel: ChannelIdentity) => [
+    channel.tvgId ? `id:${channel.tvgId}\u0000${channel.tvgName}` : null,
+    `url:${channel.url}`,
+    `name:${channel.tvgName}\u0000${channel.groupTitle || ""}`,
+  ];
+
+  // First channel per key wins, matching the order duplicates got their IDs
+  const index = new Map<string, string>();
+  for (const channel of next) {
+    for (const key of keys(channel)) {
+      if (key && !index.has(key)) index.set(key, channel.id);
+    }
+  }
+
+  const result = new Set<string>();
+  let remapped = 0;
+  for (const id of favorites) {
+    const old = nextIds.has(id) ? undefined : previousById.get(id);
+    const match = old
+      ? keys(old)
+          .map((key) => (key ? index.get(key) : undefined))
+          .find(Boolean)
+      : undefined;
+
+    if (match) {
+      result.add(match);
+      remapped++;
+    } else {
+      result.add(id);
+    }
+  }
+
+  return { favorites: result, remapped };
+}
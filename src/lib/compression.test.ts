@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { deflateSync, gzipSync } from "node:zlib";
+import {
+  ArchiveEntryRequiredError,
+  CompressionError,
+  detectCompression,
+  openPlaylistStream,
+} from "./compression";
+
+const PLAYLIST = "#EXTM3U\n#EXTINF:-1,Kanal\nhttp://a.example/1.ts\n";
+
+// Made with Python's lzma and zipfile modules; the zip holds tr.m3u,
+// de.m3u8 (channel "Sender") and readme.txt, deflated
+const XZ =
+  "/Td6WFoAAAFpIt42AgAhARYAAAB0L+WjAQAuI0VYVE0zVQojRVhUSU5GOi0xLEthbmFsCmh0" +
+  "dHA6Ly9hLmV4YW1wbGUvMS50cwoAAHl8hxYAAUMvtJQDUJBCmQ0BAAAAAAFZWg==";
+const ZIP =
+  "UEsDBBQAAAAIABeDUl15fIcWLwAAAC8AAAAGAAAAdHIubTN1U3aNCPE1DuVSBtKefm5WuoY6" +
+  "3ol5iTlcGSUlBVb6+ol6qRWJuQU5qfqGeiXFXABQSwMEFAAAAAgAF4NSXSS9ywMwAAAAMAAA" +
+  "AAcAAABkZS5tM3U4U3aNCPE1DuVSBtKefm5WuoY6wal5KalFXBklJQVW+vqJeqkVibkFOan6" +
+  "hnolxVwAUEsDBBQAAAAIABeDUl2DFtyMAwAAAAEAAAAKAAAAcmVhZG1lLnR4dKsAAFBLAQIU" +
+  "AxQAAAAIABeDUl15fIcWLwAAAC8AAAAGAAAAAAAAAAAAAACAAQAAAAB0ci5tM3VQSwECFAMU" +
+  "AAAACAAXg1JdJL3LAzAAAAAwAAAABwAAAAAAAAAAAAAAgAFTAAAAZGUubTN1OFBLAQIUAxQA" +
+  "AAAIABeDUl2DFtyMAwAAAAEAAAAKAAAAAAAAAAAAAACAAagAAAByZWFkbWUudHh0UEsFBgAA" +
+  "AAADAAMAoQAAANMAAAAAAA==";
+
+function streamOf(bytes: Uint8Array, chunkSize = 7) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.byteLength; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function open(bytes: Uint8Array, entry?: string) {
+  const opened = await openPlaylistStream(streamOf(bytes), { entry });
+  return { ...opened, text: await new Response(opened.stream).text() };
+}
+
+describe("openPlaylistStream", () => {
+  test("passes plain playlists through", async () => {
+    const opened = await open(new TextEncoder().encode(PLAYLIST));
+    expect(opened.compression).toBeNull();
+    expect(opened.text).toBe(PLAYLIST);
+  });
+
+  test("decompresses gzip, deflate and xz", async () => {
+    for (const [bytes, format] of [
+      [gzipSync(PLAYLIST), "gzip"],
+      [deflateSync(PLAYLIST), "deflate"],
+      [Buffer.from(XZ, "base64"), "xz"],
+    ] as const) {
+      const opened = await open(new Uint8Array(bytes));
+      expect(opened.compression).toBe(format);
+      expect(opened.text).toBe(PLAYLIST);
+    }
+  });
+
+  test("reports corrupt gzip and xz data as CompressionError", async () => {
+    const gzip = new Uint8Array(gzipSync(PLAYLIST));
+    gzip.fill(0xff, 10, 30);
+    await expect(open(gzip)).rejects.toBeInstanceOf(CompressionError);
+
+    const truncated = new Uint8Array(gzipSync(PLAYLIST)).slice(0, 20);
+    await expect(open(truncated)).rejects.toThrow("Bozuk gzip arşivi");
+
+    const xz = new Uint8Array(Buffer.from(XZ, "base64"));
+    xz.fill(0, 30, 50);
+    await expect(open(xz)).rejects.toBeInstanceOf(CompressionError);
+  });
+
+  test("asks which playlist to extract from a zip with several", async () => {
+    const zip = new Uint8Array(Buffer.from(ZIP, "base64"));
+    expect(detectCompression(zip)).toBe("zip");
+
+    try {
+      await open(zip);
+      throw new Error("expected ArchiveEntryRequiredError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ArchiveEntryRequiredError);
+      expect((error as ArchiveEntryRequiredError).entries).toEqual([
+        "tr.m3u",
+        "de.m3u8",
+      ]);
+    }
+
+    const opened = await open(zip, "de.m3u8");
+    expect(opened.entry).toBe("de.m3u8");
+    expect(opened.text).toBe(PLAYLIST.replace("Kanal", "Sender"));
+
+    await expect(open(zip, "readme.txt")).rejects.toThrow(
+      "Seçilen dosya arşivde yok"
+    );
+  });
+
+  test("rejects a zip without a central directory", async () => {
+    const zip = new Uint8Array(Buffer.from(ZIP, "base64")).slice(0, 120);
+    await expect(open(zip, "tr.m3u")).rejects.toThrow("Bozuk zip arşivi");
+  });
+});
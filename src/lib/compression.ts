@@ -0,0 +1,311 @@
+import { XzReadableStream } from "xz-decompress";
+import { peekStream, readAll } from "@/lib/m3u-stream";
+
+export type CompressionFormat = "gzip" | "deflate" | "zip" | "xz";
+
+export const PLAYLIST_EXTENSIONS = [".m3u", ".m3u8"];
+
+/** Accepted on their own or after a playlist extension (playlist.m3u.gz) */
+export const COMPRESSED_EXTENSIONS = [".gz", ".zip", ".xz"];
+
+export class CompressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompressionError";
+  }
+}
+
+/**
+ * A zip archive holds several playlists and the caller has to pick one
+ */
+export class ArchiveEntryRequiredError extends Error {
+  constructor(public entries: string[]) {
+    super("Arşivde birden fazla playlist var; lütfen birini seçin");
+    this.name = "ArchiveEntryRequiredError";
+  }
+}
+
+export interface OpenPlaylistOptions {
+  /** Zip entry to extract when the archive holds several playlists */
+  entry?: string;
+  /** Limit for the compressed bytes a zip archive is buffered to */
+  maxArchiveBytes?: number;
+}
+
+export interface OpenedPlaylist {
+  /** Decompressed playlist bytes */
+  stream: ReadableStream<Uint8Array>;
+  compression: CompressionFormat | null;
+  /** Name of the extracted zip entry */
+  entry?: string;
+}
+
+// Enough for the longest magic number (xz, 6 bytes)
+const MAGIC_SIZE = 6;
+
+export function isSupportedUploadName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return [...PLAYLIST_EXTENSIONS, ...COMPRESSED_EXTENSIONS].some((ext) =>
+    lower.endsWith(ext)
+  );
+}
+
+/**
+ * Recognize a compressed stream from its first bytes; file names lie too
+ * often to be trusted
+ */
+export function detectCompression(head: Uint8Array): CompressionFormat | null {
+  if (head[0] === 0x1f && head[1] === 0x8b) return "gzip";
+  if (
+    head[0] === 0x50 &&
+    head[1] === 0x4b &&
+    head[2] === 0x03 &&
+    head[3] === 0x04
+  )
+    return "zip";
+  if (
+    head[0] === 0xfd &&
+    head[1] === 0x37 &&
+    head[2] === 0x7a &&
+    head[3] === 0x58 &&
+    head[4] === 0x5a &&
+    head[5] === 0x00
+  )
+    return "xz";
+  // zlib header: deflate method, 32K window, checksum over the two bytes
+  if (head[0] === 0x78 && [0x01, 0x5e, 0x9c, 0xda].includes(head[1]))
+    return "deflate";
+  return null;
+}
+
+/**
+ * Turn an uploaded or fetched byte stream into plain playlist bytes:
+ * gzip/deflate/xz are decompressed on the fly, zip archives are buffered and
+ * the (chosen) .m3u/.m3u8 entry extracted. Corrupt compressed data fails
+ * the stream with a CompressionError. Size limits on the result are the
+ * caller's job, so they count decompressed bytes.
+ */
+export async function openPlaylistStream(
+  input: ReadableStream<Uint8Array>,
+  options: OpenPlaylistOptions = {}
+): Promise<OpenedPlaylist> {
+  const { head, stream } = await peekStream(input, MAGIC_SIZE);
+  const compression = detectCompression(head);
+
+  switch (compression) {
+    case "gzip":
+    case "deflate":
+      return {
+        stream: decompress(stream, compression),
+        compression,
+      };
+    case "zip":
+      return {
+        ...(await extractZipEntry(
+          await readAll(stream, options.maxArchiveBytes),
+          options.entry
+        )),
+        compression,
+      };
+    case "xz":
+      return { stream: decompressXz(stream), compression };
+    default:
+      return { stream, compression: null };
+  }
+}
+
+const ARCHIVE_NAMES = {
+  gzip: "gzip",
+  deflate: "deflate",
+  "deflate-raw": "zip",
+  xz: "xz",
+};
+
+function decompress(
+  stream: ReadableStream<Uint8Array>,
+  format: "gzip" | "deflate" | "deflate-raw"
+): ReadableStream<Uint8Array> {
+  return reportCorruption(
+    // lib.dom types the writable side as BufferSource
+    stream.pipeThrough(
+      new DecompressionStream(format) as unknown as ReadableWritablePair<
+        Uint8Array,
+        Uint8Array
+      >
+    ),
+    format
+  );
+}
+
+/**
+ * xz through a WebAssembly build of xz-embedded
+ */
+function decompressXz(
+  stream: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  return reportCorruption(new XzReadableStream(stream), "xz");
+}
+
+/**
+ * Pass decompressed bytes through, turning decoder failures on corrupt or
+ * truncated input into a CompressionError
+ */
+function reportCorruption(
+  stream: ReadableStream<Uint8Array>,
+  format: keyof typeof ARCHIVE_NAMES
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(
+          new CompressionError(
+            `Bozuk ${ARCHIVE_NAMES[format]} arşivi${
+              error instanceof Error ? `: ${error.message}` : ""
+            }`
+          )
+        );
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Locate the playlist entries through the zip central directory and stream
+ * the selected one
+ */
+function extractZipEntry(
+  archive: Uint8Array,
+  entry?: string
+): { stream: ReadableStream<Uint8Array>; entry: string } {
+  const playlists = readZipDirectory(archive).filter(
+    (item) =>
+      !item.name.endsWith("/") &&
+      !item.name.startsWith("__MACOSX/") &&
+      PLAYLIST_EXTENSIONS.some((ext) => item.name.toLowerCase().endsWith(ext))
+  );
+
+  if (playlists.length === 0) {
+    throw new CompressionError("Arşivde .m3u veya .m3u8 dosyası bulunamadı");
+  }
+
+  let selected: ZipEntry | undefined;
+  if (entry) {
+    selected = playlists.find((item) => item.name === entry);
+    if (!selected) throw new CompressionError("Seçilen dosya arşivde yok");
+  } else if (playlists.length === 1) {
+    selected = playlists[0];
+  } else {
+    throw new ArchiveEntryRequiredError(playlists.map((item) => item.name));
+  }
+
+  if (selected.flags & 0x1) {
+    throw new CompressionError("Şifreli zip arşivleri desteklenmiyor");
+  }
+  if (selected.compressedSize === 0xffffffff) {
+    throw new CompressionError("Zip64 arşivleri desteklenmiyor");
+  }
+
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength
+  );
+  const offset = selected.localHeaderOffset;
+  if (
+    offset + 30 > archive.byteLength ||
+    view.getUint32(offset, true) !== 0x04034b50
+  ) {
+    throw new CompressionError("Bozuk zip arşivi");
+  }
+  const dataStart =
+    offset +
+    30 +
+    view.getUint16(offset + 26, true) +
+    view.getUint16(offset + 28, true);
+  const data = archive.subarray(dataStart, dataStart + selected.compressedSize);
+
+  const raw = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  });
+
+  if (selected.method === 0) return { stream: raw, entry: selected.name };
+  if (selected.method === 8) {
+    return {
+      stream: decompress(raw, "deflate-raw"),
+      entry: selected.name,
+    };
+  }
+  throw new CompressionError("Desteklenmeyen zip sıkıştırma yöntemi");
+}
+
+function readZipDirectory(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength
+  );
+
+  // End of central directory record: 22 bytes plus an optional comment
+  let end = -1;
+  for (
+    let i = archive.byteLength - 22;
+    i >= Math.max(0, archive.byteLength - 22 - 0xffff);
+    i--
+  ) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new CompressionError("Bozuk zip arşivi");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > archive.byteLength ||
+      view.getUint32(offset, true) !== 0x02014b50
+    ) {
+      throw new CompressionError("Bozuk zip arşivi");
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(
+        archive.subarray(offset + 46, offset + 46 + nameLength)
+      ),
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
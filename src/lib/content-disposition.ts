@@ -0,0 +1,49 @@
+export function sanitizeFilename(filename: string): string {
+  const cleaned = filename
+    .replace(/[\u0000-\u001F<>:"/\\|?*]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[. ]+$/g, "")
+    .slice(0, 160);
+
+  return cleaned || "download";
+}
+
+/**
+ * `attachment` header with an ASCII fallback and the UTF-8 name (RFC 6266)
+ */
+export function createContentDispositionHeader(filename: string): string {
+  const safe = sanitizeFilename(filename);
+  const asciiFallback = safe.replace(/[^\x20-\x7E]/g, "") || "download";
+  const encoded = encodeURIComponent(safe);
+  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Filename from a Content-Disposition header, preferring the RFC 5987
+ * `filename*` form
+ */
+export function parseContentDispositionFilename(
+  header: string | null
+): string | undefined {
+  if (!header) return undefined;
+
+  const encoded = /filename\*\s*=\s*([\w-]+)'[^']*'([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return encoded[1].toLowerCase() === "utf-8"
+        ? decodeURIComponent(encoded[2].trim())
+        : encoded[2]
+            .trim()
+            .replace(/%([0-9a-f]{2})/gi, (_, hex) =>
+              String.fromCharCode(parseInt(hex, 16))
+            );
+    } catch {
+      // Fall back to the plain filename
+    }
+  }
+
+  const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(header);
+  const name = (plain?.[1] ?? plain?.[2])?.trim();
+  return name || undefined;
+}
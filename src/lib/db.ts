@@ -0,0 +1,18 @@
+import { PrismaLibSQL } from "@prisma/adapter-libsql";
+import { PrismaClient } from "@prisma/client";
+
+const globalForPrisma = globalThis as unknown as {
+  prisma: PrismaClient | undefined;
+};
+
+function createClient(): PrismaClient {
+  // DATABASE_URL is read by libsql itself; relative file: paths start at
+  // the working directory
+  const adapter = new PrismaLibSQL({ url: process.env.DATABASE_URL ?? "" });
+  return new PrismaClient({ adapter });
+}
+
+// Reuse one client across hot reloads in development
+export const db = globalForPrisma.prisma ?? createClient();
+
+if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = db;
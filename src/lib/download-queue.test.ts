@@ -0,0 +1,100 @@
+import { afterEach, beforeAll, describe, expect, mock, test } from "bun:test";
+import { DownloadQueue, type DownloadItem } from "./download-queue";
+
+const originalFetch = globalThis.fetch;
+
+beforeAll(() => {
+  // The queue persists itself; outside a browser there is nowhere to
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  } as Storage;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const FILE = new TextEncoder().encode("0123456789");
+
+/**
+ * A response that announces the whole file but stops after `sent` bytes
+ */
+function truncated(sent: number): Response {
+  return new Response(FILE.slice(0, sent), {
+    headers: { "content-length": String(FILE.byteLength) },
+  });
+}
+
+function waitFor(
+  queue: DownloadQueue,
+  done: (item: DownloadItem) => boolean
+): Promise<DownloadItem> {
+  return new Promise((resolve) => {
+    const check = () => {
+      const item = queue.getSnapshot().items[0];
+      if (item && done(item)) {
+        unsubscribe();
+        resolve(item);
+      }
+    };
+    const unsubscribe = queue.subscribe(check);
+    check();
+  });
+}
+
+describe("DownloadQueue", () => {
+  test("resumes a body that ended before its Content-Length", async () => {
+    const ranges: (string | null)[] = [];
+    globalThis.fetch = mock(async (_url: unknown, init?: RequestInit) => {
+      const range = new Headers(init?.headers).get("range");
+      ranges.push(range);
+      if (!range) return truncated(4);
+      return new Response(FILE.slice(4), {
+        status: 206,
+        headers: {
+          "content-range": `bytes 4-9/${FILE.byteLength}`,
+          "content-length": "6",
+        },
+      });
+    }) as unknown as typeof fetch;
+
+    const queue = new DownloadQueue();
+    queue.enqueue([
+      { channelId: "1", name: "Film", url: "/film", filename: "film.mp4" },
+    ]);
+
+    const retrying = await waitFor(queue, (item) => item.attempts === 1);
+    expect(retrying.status).toBe("queued");
+    expect(retrying.bytesReceived).toBe(4);
+    expect(retrying.error).toContain("4 of 10");
+
+    const completed = await waitFor(
+      queue,
+      (item) => item.status === "completed"
+    );
+    expect(completed.bytesReceived).toBe(10);
+    expect(completed.totalBytes).toBe(10);
+    expect(ranges).toEqual([null, "bytes=4-"]);
+  }, 10_000);
+
+  test("completes a body without a known length", async () => {
+    globalThis.fetch = mock(
+      async () => new Response(new Blob([FILE]).stream())
+    ) as unknown as typeof fetch;
+
+    const queue = new DownloadQueue();
+    queue.enqueue([
+      { channelId: "2", name: "Film", url: "/film", filename: "film.mp4" },
+    ]);
+
+    const completed = await waitFor(
+      queue,
+      (item) => item.status === "completed"
+    );
+    expect(completed.bytesReceived).toBe(10);
+    expect(completed.attempts).toBe(0);
+  });
+});
@@ -0,0 +1,568 @@
+import { parseContentDispositionFilename } from "@/lib/content-disposition";
+
+export type DownloadStatus =
+  | "queued"
+  | "downloading"
+  | "paused"
+  | "completed"
+  | "failed";
+
+export interface DownloadItem {
+  id: string;
+  /** Channel the download was started from */
+  channelId: string;
+  name: string;
+  /** Proxy URL the file is fetched from; it has to honor Range requests */
+  url: string;
+  filename: string;
+  status: DownloadStatus;
+  bytesReceived: number;
+  /** Unknown until the server reports a length */
+  totalBytes?: number;
+  /** totalBytes is the server's guess (e.g. HLS bit rate × duration) */
+  totalEstimated?: boolean;
+  /** Failed attempts so far */
+  attempts: number;
+  error?: string;
+  /** A queued item that failed is not started again before this time */
+  retryAt?: number;
+  addedAt: number;
+}
+
+export type DownloadRequest = Pick<
+  DownloadItem,
+  "channelId" | "name" | "url" | "filename"
+>;
+
+export interface DownloadQueueSnapshot {
+  items: DownloadItem[];
+  concurrency: number;
+}
+
+export const MAX_DOWNLOAD_CONCURRENCY = 5;
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 2;
+
+const STORAGE_KEY = "m3u_download_queue";
+const MAX_ATTEMPTS = 3;
+// Doubled after every failed attempt
+const RETRY_DELAY_MS = 2000;
+const PROGRESS_INTERVAL_MS = 250;
+const PERSIST_INTERVAL_MS = 1000;
+// Partial files are committed this often, so a reload loses little
+const COMMIT_INTERVAL_BYTES = 8 * 1024 * 1024;
+
+const ACTIVE_STATUSES: DownloadStatus[] = ["queued", "downloading", "paused"];
+
+interface PartWriter {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Where the bytes of unfinished and finished downloads are kept
+ */
+interface PartStore {
+  size(id: string): Promise<number>;
+  /** Open for appending at `offset`, dropping anything stored after it */
+  open(id: string, offset: number): Promise<PartWriter>;
+  read(id: string): Promise<Blob>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Origin private file system: partial files survive page reloads
+ */
+class OpfsPartStore implements PartStore {
+  private directory: Promise<FileSystemDirectoryHandle> | null = null;
+
+  private getDirectory(): Promise<FileSystemDirectoryHandle> {
+    this.directory ??= navigator.storage
+      .getDirectory()
+      .then((root) => root.getDirectoryHandle("downloads", { create: true }));
+    return this.directory;
+  }
+
+  async size(id: string): Promise<number> {
+    try {
+      const handle = await (await this.getDirectory()).getFileHandle(id);
+      return (await handle.getFile()).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  async open(id: string, offset: number): Promise<PartWriter> {
+    const handle = await (
+      await this.getDirectory()
+    ).getFileHandle(id, { create: true });
+    let writable = await handle.createWritable({ keepExistingData: true });
+    await writable.truncate(offset);
+    await writable.seek(offset);
+    let position = offset;
+    let uncommitted = 0;
+
+    return {
+      async write(chunk) {
+        await writable.write(chunk as Uint8Array<ArrayBuffer>);
+        position += chunk.byteLength;
+        uncommitted += chunk.byteLength;
+        // Writes only reach the file when the stream is closed
+        if (uncommitted >= COMMIT_INTERVAL_BYTES) {
+          await writable.close();
+          writable = await handle.createWritable({ keepExistingData: true });
+          await writable.seek(position);
+          uncommitted = 0;
+        }
+      },
+      close: () => writable.close(),
+    };
+  }
+
+  async read(id: string): Promise<Blob> {
+    const handle = await (await this.getDirectory()).getFileHandle(id);
+    return handle.getFile();
+  }
+
+  async remove(id: string): Promise<void> {
+    await (await this.getDirectory()).removeEntry(id).catch(() => {});
+  }
+}
+
+/**
+ * Fallback for browsers without OPFS: resumable until the page is reloaded
+ */
+class MemoryPartStore implements PartStore {
+  private parts = new Map<string, Uint8Array[]>();
+
+  async size(id: string): Promise<number> {
+    return (this.parts.get(id) || []).reduce(
+      (sum, chunk) => sum + chunk.byteLength,
+      0
+    );
+  }
+
+  async open(id: string, offset: number): Promise<PartWriter> {
+    if (offset === 0) this.parts.set(id, []);
+    const chunks = this.parts.get(id)!;
+    return {
+      write: async (chunk) => {
+        chunks.push(chunk);
+      },
+      close: async () => {},
+    };
+  }
+
+  async read(id: string): Promise<Blob> {
+    const chunks = this.parts.get(id);
+    if (!chunks) throw new Error("File is no longer available");
+    return new Blob(chunks as BlobPart[]);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.parts.delete(id);
+  }
+}
+
+export interface DownloadQueueOptions {
+  /**
+   * Turn an item's URL into the one to fetch before every attempt, e.g. to
+   * sign it again after a pause
+   */
+  prepareUrl?: (url: string) => Promise<string>;
+}
+
+/**
+ * Browser download queue: runs a limited number of downloads at a time,
+ * resumes paused or interrupted ones with Range requests, retries failures
+ * and keeps its state in localStorage so it survives reloads.
+ */
+export class DownloadQueue {
+  private snapshot: DownloadQueueSnapshot = {
+    items: [],
+    concurrency: DEFAULT_DOWNLOAD_CONCURRENCY,
+  };
+  private listeners = new Set<() => void>();
+  private controllers = new Map<string, AbortController>();
+  private store: PartStore | null = null;
+  private loaded = false;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: DownloadQueueOptions = {}) {}
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    this.load();
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): DownloadQueueSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Add downloads to the end of the queue. Channels that are already queued,
+   * running or paused are skipped; returns how many were added.
+   */
+  enqueue(requests: DownloadRequest[]): number {
+    this.load();
+    const active = new Set(
+      this.snapshot.items
+        .filter((item) => ACTIVE_STATUSES.includes(item.status))
+        .map((item) => item.channelId)
+    );
+    const added = requests
+      .filter((request) => !active.has(request.channelId))
+      .map(
+        (request): DownloadItem => ({
+          ...request,
+          id: createDownloadId(),
+          status: "queued",
+          bytesReceived: 0,
+          attempts: 0,
+          addedAt: Date.now(),
+        })
+      );
+
+    if (added.length > 0) {
+      this.setItems([...this.snapshot.items, ...added]);
+      this.pump();
+    }
+    return added.length;
+  }
+
+  pause(id: string): void {
+    const item = this.find(id);
+    if (item?.status !== "queued" && item?.status !== "downloading") return;
+    this.update(id, { status: "paused", retryAt: undefined });
+    this.controllers.get(id)?.abort();
+  }
+
+  /**
+   * Continue a paused download or try a failed one again, from where it
+   * stopped
+   */
+  resume(id: string): void {
+    const item = this.find(id);
+    if (item?.status !== "paused" && item?.status !== "failed") return;
+    this.update(id, {
+      status: "queued",
+      attempts: item.status === "failed" ? 0 : item.attempts,
+      error: undefined,
+      retryAt: undefined,
+    });
+    this.pump();
+  }
+
+  remove(id: string): void {
+    const controller = this.controllers.get(id);
+    this.setItems(this.snapshot.items.filter((item) => item.id !== id));
+    // A running download deletes its file once it has stopped writing
+    if (controller) controller.abort();
+    else this.getStore().remove(id);
+  }
+
+  /**
+   * Drop completed downloads and their stored files
+   */
+  clearFinished(): void {
+    const finished = this.snapshot.items.filter(
+      (item) => item.status === "completed"
+    );
+    this.setItems(
+      this.snapshot.items.filter((item) => item.status !== "completed")
+    );
+    for (const item of finished) this.getStore().remove(item.id);
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.snapshot = {
+      ...this.snapshot,
+      concurrency: Math.min(
+        MAX_DOWNLOAD_CONCURRENCY,
+        Math.max(1, Math.round(concurrency))
+      ),
+    };
+    this.notify(true);
+    this.pump();
+  }
+
+  /**
+   * Hand a completed download to the browser as a file
+   */
+  async save(id: string): Promise<void> {
+    const item = this.find(id);
+    if (item?.status !== "completed") return;
+
+    const url = URL.createObjectURL(await this.getStore().read(id));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = item.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  private load(): void {
+    if (this.loaded || typeof window === "undefined") return;
+    this.loaded = true;
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (!saved) return;
+      const parsed = JSON.parse(saved) as DownloadQueueSnapshot;
+      this.snapshot = {
+        concurrency: parsed.concurrency || DEFAULT_DOWNLOAD_CONCURRENCY,
+        // Downloads cut off by the reload wait for the user to resume them
+        items: (parsed.items || []).map((item) =>
+          item.status === "downloading"
+            ? { ...item, status: "paused" as const }
+            : item
+        ),
+      };
+      this.notify(false);
+      this.pump();
+    } catch (error) {
+      console.error("Failed to load download queue:", error);
+    }
+  }
+
+  private getStore(): PartStore {
+    // navigator.storage is missing outside secure contexts
+    this.store ??=
+      typeof navigator !== "undefined" &&
+      navigator.storage &&
+      "getDirectory" in navigator.storage
+        ? new OpfsPartStore()
+        : new MemoryPartStore();
+    return this.store;
+  }
+
+  private find(id: string): DownloadItem | undefined {
+    return this.snapshot.items.find((item) => item.id === id);
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    let running = this.controllers.size;
+    let nextRetry = Infinity;
+
+    for (const item of this.snapshot.items) {
+      if (running >= this.snapshot.concurrency) break;
+      if (item.status !== "queued") continue;
+      if (item.retryAt && item.retryAt > now) {
+        nextRetry = Math.min(nextRetry, item.retryAt);
+        continue;
+      }
+      running++;
+      this.run(item);
+    }
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer =
+      nextRetry < Infinity
+        ? setTimeout(() => this.pump(), nextRetry - now)
+        : null;
+  }
+
+  private async run(item: DownloadItem): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item.id, {
+      status: "downloading",
+      error: undefined,
+      retryAt: undefined,
+    });
+
+    const store = this.getStore();
+    let writer: PartWriter | null = null;
+    let received: number | null = null;
+
+    try {
+      let offset = await store.size(item.id);
+      const url = this.options.prepareUrl
+        ? await this.options.prepareUrl(item.url)
+        : item.url;
+      const response = await fetch(url, {
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+        signal: controller.signal,
+      });
+
+      if (response.status === 416 && offset > 0) {
+        // Everything was already received before the interruption
+        await response.body?.cancel().catch(() => {});
+        this.update(item.id, {
+          status: "completed",
+          bytesReceived: offset,
+          totalBytes: offset,
+        });
+        this.save(item.id).catch(() => {});
+        return;
+      }
+      if (!response.ok || !response.body) {
+        await response.body?.cancel().catch(() => {});
+        throw new Error(`HTTP ${response.status}`);
+      }
+      // The server ignored the Range header and sends the whole file again
+      if (response.status !== 206) offset = 0;
+
+      const { totalBytes, totalEstimated } = getTotalBytes(response, offset);
+      writer = await store.open(item.id, offset);
+      this.update(item.id, {
+        bytesReceived: offset,
+        totalBytes,
+        totalEstimated,
+        // The server knows the real file type better than the URL does;
+        // a resumed download keeps the name it started with
+        filename:
+          offset === 0
+            ? getResponseFilename(response) ?? item.filename
+            : item.filename,
+      });
+
+      const reader = response.body.getReader();
+      received = offset;
+      let lastUpdate = Date.now();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await writer.write(value);
+        received += value.byteLength;
+        if (Date.now() - lastUpdate >= PROGRESS_INTERVAL_MS) {
+          lastUpdate = Date.now();
+          this.update(item.id, { bytesReceived: received }, false);
+        }
+      }
+
+      // A dropped connection or cut-off proxy response ends the body early;
+      // fail the attempt so the retry resumes from here
+      if (
+        !totalEstimated &&
+        totalBytes !== undefined &&
+        received < totalBytes
+      ) {
+        throw new Error(
+          `Connection closed after ${received} of ${totalBytes} bytes`
+        );
+      }
+
+      await writer.close();
+      writer = null;
+      this.update(item.id, {
+        status: "completed",
+        bytesReceived: received,
+        totalBytes: received,
+        totalEstimated: false,
+        attempts: 0,
+      });
+      this.save(item.id).catch(() => {});
+    } catch (error) {
+      // Aborted by pause() or remove(); their state is already set
+      if (controller.signal.aborted) {
+        if (received !== null) {
+          this.update(item.id, { bytesReceived: received });
+        }
+        return;
+      }
+
+      const current = this.find(item.id);
+      if (!current) return;
+      const attempts = current.attempts + 1;
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const bytesReceived = received ?? current.bytesReceived;
+      this.update(
+        item.id,
+        attempts < MAX_ATTEMPTS
+          ? {
+              status: "queued",
+              attempts,
+              bytesReceived,
+              error: message,
+              retryAt: Date.now() + RETRY_DELAY_MS * 2 ** (attempts - 1),
+            }
+          : { status: "failed", attempts, bytesReceived, error: message }
+      );
+    } finally {
+      await writer?.close().catch(() => {});
+      this.controllers.delete(item.id);
+      if (!this.find(item.id)) await store.remove(item.id);
+      this.pump();
+    }
+  }
+
+  private update(
+    id: string,
+    patch: Partial<DownloadItem>,
+    persistNow = true
+  ): void {
+    this.setItems(
+      this.snapshot.items.map((item) =>
+        item.id === id ? { ...item, ...patch } : item
+      ),
+      persistNow
+    );
+  }
+
+  private setItems(items: DownloadItem[], persistNow = true): void {
+    this.snapshot = { ...this.snapshot, items };
+    this.notify(persistNow);
+  }
+
+  private notify(persistNow: boolean): void {
+    for (const listener of this.listeners) listener();
+
+    if (persistNow) {
+      this.persist();
+    } else if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => this.persist(), PERSIST_INTERVAL_MS);
+    }
+  }
+
+  private persist(): void {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    try {
+      if (this.snapshot.items.length > 0) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.snapshot));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error("Error saving download queue:", error);
+    }
+  }
+}
+
+/**
+ * Full size of the file from Content-Range, or Content-Length plus the
+ * bytes already stored, or the server's estimate when neither is known
+ */
+function getTotalBytes(
+  response: Response,
+  offset: number
+): { totalBytes?: number; totalEstimated: boolean } {
+  const range = response.headers.get("content-range")?.match(/\/(\d+)\s*$/);
+  if (range) return { totalBytes: Number(range[1]), totalEstimated: false };
+
+  const length = Number(response.headers.get("content-length"));
+  if (length > 0) return { totalBytes: offset + length, totalEstimated: false };
+
+  const estimate = Number(response.headers.get("x-estimated-content-length"));
+  return estimate > 0
+    ? { totalBytes: estimate, totalEstimated: true }
+    : { totalEstimated: false };
+}
+
+function getResponseFilename(response: Response): string | undefined {
+  return parseContentDispositionFilename(
+    response.headers.get("content-disposition")
+  );
+}
+
+// crypto.randomUUID() needs a secure context, which LAN setups often lack
+function createDownloadId(): string {
+  return `dl-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+}
@@ -0,0 +1,179 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  ExportSpool,
+  ExportTooLargeError,
+  createExportId,
+  getStoredExport,
+  storeExport,
+  sweepExports,
+} from "./export-store";
+
+const directory = mkdtempSync(path.join(tmpdir(), "m3u-exports-"));
+const environment = { ...process.env };
+
+beforeAll(() => {
+  process.env.M3U_EXPORT_DIR = directory;
+});
+
+afterEach(() => {
+  delete process.env.M3U_EXPORT_MAX_BYTES;
+  delete process.env.M3U_EXPORT_MAX_CHANNELS;
+  delete process.env.M3U_EXPORT_MAX_FILES;
+});
+
+afterAll(() => {
+  process.env = environment;
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function spoolFiles(): string[] {
+  return readdirSync(directory).filter((name) => name.endsWith(".spool"));
+}
+
+describe("ExportSpool", () => {
+  test("reads the values back in order and removes the file", async () => {
+    const spool = await ExportSpool.create();
+    for (let i = 0; i < 3; i++) await spool.write({ i });
+    expect(spoolFiles()).toHaveLength(1);
+
+    const values: unknown[] = [];
+    for await (const value of spool.read()) values.push(value);
+    expect(values).toEqual([{ i: 0 }, { i: 1 }, { i: 2 }]);
+    expect(spoolFiles()).toHaveLength(0);
+  });
+
+  test("refuses values past M3U_EXPORT_MAX_CHANNELS", async () => {
+    process.env.M3U_EXPORT_MAX_CHANNELS = "2";
+    const spool = await ExportSpool.create();
+    await spool.write({ i: 0 });
+    await spool.write({ i: 1 });
+
+    await expect(spool.write({ i: 2 })).rejects.toThrow(ExportTooLargeError);
+    await spool.discard();
+    expect(spoolFiles()).toHaveLength(0);
+  });
+
+  test("shares the M3U_EXPORT_MAX_BYTES budget between spools", async () => {
+    process.env.M3U_EXPORT_MAX_BYTES = "100";
+    const line = { name: "x".repeat(30) };
+    const first = await ExportSpool.create();
+    await first.write(line);
+    await first.write(line);
+
+    const second = await ExportSpool.create();
+    await expect(second.write(line)).rejects.toThrow(ExportTooLargeError);
+    expect(spoolFiles()).toHaveLength(1);
+
+    // Discarding the first spool gives its bytes back
+    await first.discard();
+    const third = await ExportSpool.create();
+    await third.write(line);
+    await third.write(line);
+    await third.discard();
+    expect(spoolFiles()).toHaveLength(0);
+  });
+});
+
+describe("storeExport", () => {
+  function store(text: string, id = createExportId()) {
+    const body = new Response(text).body!;
+    return {
+      id,
+      stream: storeExport(body, {
+        id,
+        filename: "liste.m3u",
+        contentType: "audio/x-mpegurl",
+      }),
+    };
+  }
+
+  test("keeps the export once it has been read to the end", async () => {
+    const { id, stream } = store("#EXTM3U\n");
+    expect(await getStoredExport(id)).toBeNull();
+
+    expect(await new Response(stream).text()).toBe("#EXTM3U\n");
+    expect(await getStoredExport(id)).toMatchObject({
+      id,
+      size: 8,
+      filename: "liste.m3u",
+    });
+  });
+
+  test("leaves nothing behind when the download is aborted", async () => {
+    const { id, stream } = store("#EXTM3U\n");
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(await getStoredExport(id)).toBeNull();
+    const left = readdirSync(directory).filter((name) => name.startsWith(id));
+    expect(left).toEqual([]);
+  });
+});
+
+describe("sweepExports", () => {
+  async function storeAll(count: number): Promise<string[]> {
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const id = createExportId();
+      await new Response(
+        storeExport(new Response("x".repeat(10)).body!, {
+          id,
+          filename: "x",
+          contentType: "text/plain",
+        })
+      ).text();
+      // Oldest first, a second apart
+      const time = new Date(Date.now() - (count - i) * 1000);
+      utimesSync(path.join(directory, id), time, time);
+      ids.push(id);
+    }
+    return ids;
+  }
+
+  beforeEach(async () => {
+    // Start from an empty folder: no export fits a reserve this large
+    await sweepExports(directory, Infinity);
+  });
+
+  function storedIds(): string[] {
+    return readdirSync(directory).filter((name) => /^[a-f0-9]{32}$/.test(name));
+  }
+
+  test("drops the oldest exports past M3U_EXPORT_MAX_FILES", async () => {
+    const ids = await storeAll(3);
+
+    process.env.M3U_EXPORT_MAX_FILES = "2";
+    expect(await sweepExports()).toBe(20);
+    expect(storedIds().sort()).toEqual(ids.slice(1).sort());
+    expect(await getStoredExport(ids[0])).toBeNull();
+  });
+
+  test("drops the oldest exports past M3U_EXPORT_MAX_BYTES", async () => {
+    const ids = await storeAll(3);
+
+    process.env.M3U_EXPORT_MAX_BYTES = "15";
+    expect(await sweepExports()).toBe(10);
+    expect(storedIds()).toEqual([ids[2]]);
+  });
+
+  test("removes files past their lifetime", async () => {
+    const [id] = await storeAll(1);
+    const expired = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    utimesSync(path.join(directory, id), expired, expired);
+
+    expect(await sweepExports()).toBe(0);
+    expect(storedIds()).toEqual([]);
+  });
+});
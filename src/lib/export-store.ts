@@ -0,0 +1,363 @@
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+  mkdir,
+  open,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { readNdjson } from "@/lib/m3u-stream";
+
+export interface StoredExport {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Strong ETag, the quoted SHA-256 of the content */
+  etag: string;
+  /** ISO timestamp, also used for Last-Modified */
+  createdAt: string;
+}
+
+// Generated files are kept this long for resumed downloads
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MAX_EXPORT_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_MAX_EXPORT_FILES = 200;
+const DEFAULT_MAX_EXPORT_CHANNELS = 500_000;
+
+// How often the export folder is cleaned up while the server runs
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const globalForExports = globalThis as unknown as {
+  exportSweep: NodeJS.Timeout | undefined;
+  /** Bytes of exports and spools this process is still writing */
+  exportBytesWriting: number | undefined;
+};
+
+const EXPORT_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+export class ExportTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportTooLargeError";
+  }
+}
+
+/**
+ * Where generated exports live: M3U_EXPORT_DIR, or a folder in the system
+ * temp directory
+ */
+function getExportDir(): string {
+  return process.env.M3U_EXPORT_DIR || path.join(tmpdir(), "m3u-exports");
+}
+
+function readLimit(name: string, fallback: number): number {
+  const limit = Number(process.env[name]);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+/**
+ * Space stored exports may take together (M3U_EXPORT_MAX_BYTES), how many
+ * are kept (M3U_EXPORT_MAX_FILES) and how many channels one export may hold
+ * (M3U_EXPORT_MAX_CHANNELS)
+ */
+function getExportLimits(): {
+  maxBytes: number;
+  maxFiles: number;
+  maxChannels: number;
+} {
+  return {
+    maxBytes: readLimit("M3U_EXPORT_MAX_BYTES", DEFAULT_MAX_EXPORT_BYTES),
+    maxFiles: readLimit("M3U_EXPORT_MAX_FILES", DEFAULT_MAX_EXPORT_FILES),
+    maxChannels: readLimit(
+      "M3U_EXPORT_MAX_CHANNELS",
+      DEFAULT_MAX_EXPORT_CHANNELS
+    ),
+  };
+}
+
+export function createExportId(): string {
+  return randomUUID().replace(/-/g, "");
+}
+
+/**
+ * Pass an export through unchanged while writing it to disk. The file only
+ * becomes addressable once the stream has been read to the end; an aborted
+ * download leaves nothing behind. Older exports make room for new ones; an
+ * export that does not fit in M3U_EXPORT_MAX_BYTES is sent without being
+ * kept.
+ */
+export function storeExport(
+  stream: ReadableStream<Uint8Array>,
+  meta: Pick<StoredExport, "id" | "filename" | "contentType">
+): ReadableStream<Uint8Array> {
+  const dir = getExportDir();
+  const partPath = path.join(dir, `${meta.id}.part`);
+  const hash = createHash("sha256");
+  const { maxBytes } = getExportLimits();
+  let storedBytes = 0;
+  let size = 0;
+  let file: Awaited<ReturnType<typeof open>> | null = null;
+
+  const discard = async () => {
+    if (!file) return;
+    await file.close().catch(() => {});
+    file = null;
+    globalForExports.exportBytesWriting! -= size;
+    await rm(partPath, { force: true });
+  };
+
+  const persist = new TransformStream<Uint8Array, Uint8Array>({
+    async start() {
+      await mkdir(dir, { recursive: true });
+      storedBytes = await sweepExports(dir, 1);
+      globalForExports.exportBytesWriting ??= 0;
+      file = await open(partPath, "w");
+    },
+    async transform(chunk, controller) {
+      if (file) {
+        const writing =
+          globalForExports.exportBytesWriting! + chunk.byteLength;
+        if (storedBytes + writing > maxBytes) {
+          // Still sent, just not kept for resuming
+          await discard();
+        } else {
+          await file.write(chunk);
+          hash.update(chunk);
+          size += chunk.byteLength;
+          globalForExports.exportBytesWriting = writing;
+        }
+      }
+      controller.enqueue(chunk);
+    },
+    async flush() {
+      if (!file) return;
+      await file.close();
+      file = null;
+      globalForExports.exportBytesWriting! -= size;
+      const stored: StoredExport = {
+        ...meta,
+        size,
+        etag: `"${hash.digest("hex")}"`,
+        createdAt: new Date().toISOString(),
+      };
+      await rename(partPath, path.join(dir, meta.id));
+      await writeFile(
+        path.join(dir, `${meta.id}.json`),
+        JSON.stringify(stored)
+      );
+    },
+  });
+
+  const reader = stream.pipeThrough(persist).getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        await discard();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => {});
+      await discard();
+    },
+  });
+}
+
+export async function getStoredExport(
+  id: string
+): Promise<StoredExport | null> {
+  if (!EXPORT_ID_PATTERN.test(id)) return null;
+
+  try {
+    const stored = JSON.parse(
+      await readFile(path.join(getExportDir(), `${id}.json`), "utf-8")
+    ) as StoredExport;
+    if (Date.now() - Date.parse(stored.createdAt) > EXPORT_TTL_MS) return null;
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+// Spooled values are written in pieces of about this size
+const SPOOL_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Temporary NDJSON file next to the exports, for values that have to be
+ * received completely before an export can start but should not be held
+ * in memory. Reading it back removes it. Its bytes count against
+ * M3U_EXPORT_MAX_BYTES together with the exports being written, and it
+ * holds at most M3U_EXPORT_MAX_CHANNELS values.
+ */
+export class ExportSpool {
+  private buffer = "";
+  private size = 0;
+  private count = 0;
+
+  private constructor(
+    private filePath: string,
+    private file: Awaited<ReturnType<typeof open>> | null,
+    private limits: { maxBytes: number; maxChannels: number }
+  ) {}
+
+  static async create(): Promise<ExportSpool> {
+    const dir = getExportDir();
+    await mkdir(dir, { recursive: true });
+    globalForExports.exportBytesWriting ??= 0;
+    const filePath = path.join(dir, `${createExportId()}.spool`);
+    return new ExportSpool(
+      filePath,
+      await open(filePath, "w"),
+      getExportLimits()
+    );
+  }
+
+  /**
+   * Append a value; past either limit the spool is discarded and an
+   * ExportTooLargeError thrown
+   */
+  async write(value: unknown): Promise<void> {
+    const line = `${JSON.stringify(value)}\n`;
+    const bytes = Buffer.byteLength(line);
+    const writing = globalForExports.exportBytesWriting! + bytes;
+    if (
+      this.count >= this.limits.maxChannels ||
+      writing > this.limits.maxBytes
+    ) {
+      await this.discard();
+      throw new ExportTooLargeError(
+        this.count >= this.limits.maxChannels
+          ? `En fazla ${this.limits.maxChannels} kanal dışa aktarılabilir`
+          : "Dışa aktarma için yeterli alan yok"
+      );
+    }
+
+    globalForExports.exportBytesWriting = writing;
+    this.size += bytes;
+    this.count++;
+    this.buffer += line;
+    if (this.buffer.length >= SPOOL_CHUNK_SIZE) await this.flush();
+  }
+
+  /**
+   * The values in the order they were written, removing the file once
+   * they have been read or the reader stops early
+   */
+  async *read<T>(): AsyncGenerator<T> {
+    let stream: ReadableStream<Uint8Array> | null = null;
+    try {
+      await this.flush();
+      await this.file?.close();
+      this.file = null;
+      // Node and Bun type web streams differently from lib.dom
+      stream = Readable.toWeb(
+        createReadStream(this.filePath)
+      ) as unknown as ReadableStream<Uint8Array>;
+      yield* readNdjson<T>(stream);
+    } finally {
+      await stream?.cancel().catch(() => {});
+      await this.discard();
+    }
+  }
+
+  async discard(): Promise<void> {
+    await this.file?.close().catch(() => {});
+    this.file = null;
+    this.buffer = "";
+    globalForExports.exportBytesWriting! -= this.size;
+    this.size = 0;
+    await rm(this.filePath, { force: true });
+  }
+
+  private async flush(): Promise<void> {
+    if (!this.buffer || !this.file) return;
+    await this.file.write(this.buffer);
+    this.buffer = "";
+  }
+}
+
+/**
+ * Read an inclusive byte range of a stored export
+ */
+export function readStoredExport(
+  id: string,
+  start: number,
+  end: number
+): ReadableStream<Uint8Array> {
+  // Node and Bun type web streams differently from lib.dom
+  return Readable.toWeb(
+    createReadStream(path.join(getExportDir(), id), { start, end })
+  ) as unknown as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Clean up the export folder: drop everything past its lifetime, then the
+ * oldest exports until the rest fits the limits, leaving room for
+ * `reserve` more files. Returns the bytes the remaining exports take.
+ */
+export async function sweepExports(
+  dir = getExportDir(),
+  reserve = 0
+): Promise<number> {
+  const { maxBytes, maxFiles } = getExportLimits();
+  const now = Date.now();
+  const exports: { id: string; size: number; mtimeMs: number }[] = [];
+
+  for (const name of await readdir(dir).catch(() => [] as string[])) {
+    const filePath = path.join(dir, name);
+    try {
+      const { mtimeMs, size } = await stat(filePath);
+      if (now - mtimeMs > EXPORT_TTL_MS) {
+        await rm(filePath, { force: true });
+      } else if (EXPORT_ID_PATTERN.test(name)) {
+        exports.push({ id: name, size, mtimeMs });
+      }
+    } catch {
+      // Removed concurrently
+    }
+  }
+
+  exports.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  let total = 0;
+  let kept = 0;
+  for (const stored of exports) {
+    if (kept < maxFiles - reserve && total + stored.size <= maxBytes) {
+      total += stored.size;
+      kept++;
+      continue;
+    }
+    await rm(path.join(dir, `${stored.id}.json`), { force: true });
+    await rm(path.join(dir, stored.id), { force: true });
+  }
+
+  return total;
+}
+
+/**
+ * Sweep the export folder now and then every hour, once per process
+ */
+export function startExportSweep(): void {
+  if (globalForExports.exportSweep) return;
+
+  const sweep = () =>
+    sweepExports().catch((error) =>
+      console.error("Export sweep error:", error)
+    );
+  void sweep();
+  globalForExports.exportSweep = setInterval(sweep, SWEEP_INTERVAL_MS);
+  // Do not keep the process alive for it
+  globalForExports.exportSweep.unref();
+}
@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  HlsDownloadError,
+  createHlsStream,
+  parseHlsPlaylist,
+  readLimited,
+  selectVariant,
+  type HlsMasterVariant,
+} from "./hls-download";
+
+const MASTER = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="muxed",NAME="Main",DEFAULT=YES
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="muxed",NAME="English",URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="Main",URI="audio/main.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=8000000,RESOLUTION=1920x1080,AUDIO="aac"
+1080.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=4000000,RESOLUTION=1280x720,AUDIO="muxed"
+720.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=1000000,RESOLUTION=640x360
+360.m3u8
+`;
+
+function master(): HlsMasterVariant[] {
+  const parsed = parseHlsPlaylist(MASTER, "http://cdn.example/movie/");
+  if (parsed.type !== "master") throw new Error("expected a master playlist");
+  return parsed.variants;
+}
+
+describe("separate audio renditions", () => {
+  test("marks variants whose audio is only in a rendition", () => {
+    expect(
+      master().map((variant) => [variant.url, variant.separateAudio])
+    ).toEqual([
+      ["http://cdn.example/movie/1080.m3u8", true],
+      ["http://cdn.example/movie/720.m3u8", undefined],
+      ["http://cdn.example/movie/360.m3u8", undefined],
+    ]);
+  });
+
+  test("picks the best variant with muxed audio", () => {
+    expect(selectVariant(master()).resolution).toBe("1280x720");
+    expect(selectVariant(master(), 2).resolution).toBe("640x360");
+  });
+
+  test("refuses a chosen variant without muxed audio", () => {
+    expect(() => selectVariant(master(), 0)).toThrow(HlsDownloadError);
+    try {
+      selectVariant(master(), 0);
+    } catch (error) {
+      expect((error as HlsDownloadError).status).toBe(415);
+    }
+  });
+});
+
+describe("readLimited", () => {
+  const body = () => new Response(new Uint8Array(64).fill(7));
+
+  test("fails past the limit", async () => {
+    await expect(readLimited(body(), 32)).rejects.toThrow(
+      "Playlist çok büyük"
+    );
+    await expect(
+      readLimited(body(), 32, {
+        tooLarge: () => new HlsDownloadError("Segment çok büyük", 502),
+      })
+    ).rejects.toThrow("Segment çok büyük");
+  });
+
+  test("stops reading once stopAt bytes are in", async () => {
+    const data = await readLimited(body(), 1024, { stopAt: 16 });
+    expect(data.byteLength).toBeGreaterThanOrEqual(16);
+  });
+});
+
+describe("segment retries", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const hits = new Map<string, number>();
+  const allowedHosts = process.env.M3U_ALLOWED_HOSTS;
+
+  beforeAll(() => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(request) {
+        const path = new URL(request.url).pathname;
+        const count = (hits.get(path) ?? 0) + 1;
+        hits.set(path, count);
+
+        if (path === "/missing.ts") return new Response("", { status: 404 });
+        // Fails once, then works
+        if (path === "/flaky.ts" && count === 1) {
+          return new Response("", { status: 503 });
+        }
+        return new Response(path.slice(1));
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    if (allowedHosts === undefined) delete process.env.M3U_ALLOWED_HOSTS;
+    else process.env.M3U_ALLOWED_HOSTS = allowedHosts;
+  });
+
+  function playlist(...names: string[]) {
+    const parsed = parseHlsPlaylist(
+      `#EXTM3U\n${names.map((name) => `#EXTINF:1,\n${name}`).join("\n")}\n` +
+        "#EXT-X-ENDLIST\n",
+      `http://127.0.0.1:${server.port}/`
+    );
+    if (parsed.type !== "media") throw new Error("expected a media playlist");
+    return parsed.playlist;
+  }
+
+  test("retries a 5xx response", async () => {
+    const text = await new Response(
+      createHlsStream(playlist("a.ts", "flaky.ts"))
+    ).text();
+    expect(text).toBe("a.tsflaky.ts");
+    expect(hits.get("/flaky.ts")).toBe(2);
+  });
+
+  test("does not retry a 4xx response", async () => {
+    await expect(
+      new Response(createHlsStream(playlist("missing.ts"))).text()
+    ).rejects.toThrow("HTTP 404");
+    expect(hits.get("/missing.ts")).toBe(1);
+  });
+});
@@ -0,0 +1,499 @@
+import {
+  parseHlsAttributes,
+  parseStreamInf,
+  type HlsVariant,
+} from "@/lib/m3u-parser";
+import { concatBytes } from "@/lib/m3u-stream";
+import { BlockedUrlError, safeFetch } from "@/lib/url-safety";
+
+export interface HlsByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface HlsKey {
+  method: string;
+  url?: string;
+  /** From the IV attribute; otherwise the media sequence number is used */
+  iv?: Uint8Array;
+}
+
+export interface HlsSegment {
+  url: string;
+  duration: number;
+  sequence: number;
+  byteRange?: HlsByteRange;
+  key?: HlsKey;
+}
+
+export interface HlsMediaPlaylist {
+  segments: HlsSegment[];
+  /** Initialization section of fMP4 playlists (#EXT-X-MAP) */
+  map?: { url: string; byteRange?: HlsByteRange };
+  endList: boolean;
+  totalDuration: number;
+}
+
+export interface HlsMasterVariant extends HlsVariant {
+  url: string;
+  /**
+   * The audio is only in #EXT-X-MEDIA renditions of the variant's AUDIO
+   * group, which are not merged, so a download would be silent
+   */
+  separateAudio?: boolean;
+}
+
+export type HlsPlaylist =
+  | { type: "master"; variants: HlsMasterVariant[] }
+  | { type: "media"; playlist: HlsMediaPlaylist };
+
+export class HlsDownloadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "HlsDownloadError";
+  }
+}
+
+const MAX_PLAYLIST_BYTES = 5 * 1024 * 1024;
+// Far above a 10 second 4K segment; anything larger is a broken origin
+const MAX_SEGMENT_BYTES = 100 * 1024 * 1024;
+// Segments fetched ahead of the one being sent
+const PREFETCH_SEGMENTS = 3;
+const SEGMENT_ATTEMPTS = 3;
+
+/**
+ * Parse an HLS playlist, resolving every URI against `baseUrl`
+ */
+export function parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith("#EXTM3U")) {
+    throw new HlsDownloadError("Geçerli bir HLS playlist değil");
+  }
+
+  const resolve = (uri: string) => new URL(uri, baseUrl).toString();
+  const variants: HlsMasterVariant[] = [];
+  // AUDIO group of each variant, and whether a group has a rendition that
+  // is muxed into the variants
+  const variantAudio: Array<string | undefined> = [];
+  const audioGroups = new Map<string, boolean>();
+  const segments: HlsSegment[] = [];
+  let map: HlsMediaPlaylist["map"];
+  let endList = false;
+  let sequence = 0;
+  let key: HlsKey | undefined;
+  let pendingVariant: HlsVariant | null = null;
+  let pendingDuration: number | null = null;
+  let pendingRange: { length: number; offset?: number } | null = null;
+  // Byte ranges without an offset continue where the last one ended
+  let lastRange: { url: string; end: number } | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#")) {
+      const colon = line.indexOf(":");
+      const tag = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1);
+
+      switch (tag) {
+        case "#EXT-X-STREAM-INF":
+          pendingVariant = parseStreamInf(value);
+          variantAudio[variants.length] =
+            parseHlsAttributes(value).AUDIO || undefined;
+          break;
+        case "#EXT-X-MEDIA": {
+          const attributes = parseHlsAttributes(value);
+          if (attributes.TYPE === "AUDIO" && attributes["GROUP-ID"]) {
+            const group = attributes["GROUP-ID"];
+            // A rendition without URI is the audio inside the variant
+            audioGroups.set(
+              group,
+              (audioGroups.get(group) ?? false) || !attributes.URI
+            );
+          }
+          break;
+        }
+        case "#EXT-X-MEDIA-SEQUENCE":
+          sequence = Number(value) || 0;
+          break;
+        case "#EXTINF":
+          pendingDuration = parseFloat(value) || 0;
+          break;
+        case "#EXT-X-BYTERANGE":
+          pendingRange = parseByteRange(value);
+          break;
+        case "#EXT-X-KEY":
+          key = parseKey(value, resolve);
+          break;
+        case "#EXT-X-MAP": {
+          const attributes = parseHlsAttributes(value);
+          if (attributes.URI) {
+            const range = attributes.BYTERANGE
+              ? parseByteRange(attributes.BYTERANGE)
+              : null;
+            map = {
+              url: resolve(attributes.URI),
+              byteRange: range
+                ? { offset: range.offset ?? 0, length: range.length }
+                : undefined,
+            };
+          }
+          break;
+        }
+        case "#EXT-X-ENDLIST":
+          endList = true;
+          break;
+      }
+      continue;
+    }
+
+    if (pendingVariant) {
+      variants.push({ ...pendingVariant, url: resolve(line) });
+      pendingVariant = null;
+      continue;
+    }
+
+    const url = resolve(line);
+    let byteRange: HlsByteRange | undefined;
+    if (pendingRange) {
+      const offset =
+        pendingRange.offset ??
+        (lastRange && lastRange.url === url ? lastRange.end : 0);
+      byteRange = { offset, length: pendingRange.length };
+      lastRange = { url, end: offset + pendingRange.length };
+    }
+
+    segments.push({
+      url,
+      duration: pendingDuration ?? 0,
+      sequence: sequence + segments.length,
+      byteRange,
+      key: key?.method === "NONE" ? undefined : key,
+    });
+    pendingDuration = null;
+    pendingRange = null;
+  }
+
+  if (variants.length > 0) {
+    variants.forEach((variant, index) => {
+      const group = variantAudio[index];
+      if (group !== undefined && audioGroups.get(group) === false) {
+        variant.separateAudio = true;
+      }
+    });
+    return { type: "master", variants };
+  }
+  return {
+    type: "media",
+    playlist: {
+      segments,
+      map,
+      endList,
+      totalDuration: segments.reduce((sum, s) => sum + s.duration, 0),
+    },
+  };
+}
+
+// "<length>[@<offset>]"
+function parseByteRange(value: string): { length: number; offset?: number } {
+  const [length, offset] = value.split("@").map((part) => Number(part));
+  if (!Number.isFinite(length) || length <= 0) {
+    throw new HlsDownloadError("Geçersiz #EXT-X-BYTERANGE");
+  }
+  return {
+    length,
+    offset: Number.isFinite(offset) ? offset : undefined,
+  };
+}
+
+function parseKey(value: string, resolve: (uri: string) => string): HlsKey {
+  const attributes = parseHlsAttributes(value);
+  const method = (attributes.METHOD || "NONE").toUpperCase();
+  if (method === "NONE") return { method };
+  if (method !== "AES-128") {
+    throw new HlsDownloadError(`Desteklenmeyen şifreleme: ${method}`, 415);
+  }
+  if (!attributes.URI) {
+    throw new HlsDownloadError("Şifre anahtarı adresi eksik");
+  }
+
+  let iv: Uint8Array | undefined;
+  if (attributes.IV) {
+    const hex = attributes.IV.replace(/^0x/i, "").padStart(32, "0");
+    if (!/^[0-9a-f]{32}$/i.test(hex)) {
+      throw new HlsDownloadError("Geçersiz IV");
+    }
+    iv = Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+  }
+
+  return { method, url: resolve(attributes.URI), iv };
+}
+
+/**
+ * Highest bandwidth variant with its audio inside, or the one at `index` in
+ * playlist order. Variants whose audio is only in a separate rendition are
+ * refused, since the download would have no sound.
+ */
+export function selectVariant(
+  variants: HlsMasterVariant[],
+  index?: number
+): HlsMasterVariant {
+  const variant =
+    index !== undefined
+      ? variants[index]
+      : variants
+          .filter((candidate) => !candidate.separateAudio)
+          .reduce<HlsMasterVariant | undefined>(
+            (best, candidate) =>
+              !best || candidate.bandwidth > best.bandwidth ? candidate : best,
+            undefined
+          ) ?? variants.find((candidate) => candidate.separateAudio);
+
+  if (!variant) throw new HlsDownloadError("Seçilen kalite bulunamadı");
+  if (variant.separateAudio) {
+    throw new HlsDownloadError(
+      "Bu kalitenin sesi ayrı bir parçada; ayrı ses parçaları birleştirilemez",
+      415
+    );
+  }
+  return variant;
+}
+
+export interface HlsFetchOptions {
+  /** Stream headers from the playlist entry */
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch and parse a playlist; a master playlist is followed to the chosen
+ * variant's media playlist
+ */
+export async function resolveHlsPlaylist(
+  url: string,
+  options: HlsFetchOptions & { variant?: number } = {}
+): Promise<{
+  playlist: HlsMediaPlaylist;
+  variants: HlsMasterVariant[];
+  variant?: HlsMasterVariant;
+}> {
+  const parsed = await fetchHlsPlaylist(url, options);
+  if (parsed.type === "media") {
+    return { playlist: parsed.playlist, variants: [] };
+  }
+
+  const variant = selectVariant(parsed.variants, options.variant);
+  const media = await fetchHlsPlaylist(variant.url, options);
+  if (media.type !== "media") {
+    throw new HlsDownloadError("Varyant bir medya playlist değil");
+  }
+  return { playlist: media.playlist, variants: parsed.variants, variant };
+}
+
+/**
+ * Fetch and parse a single playlist
+ */
+export async function fetchHlsPlaylist(
+  url: string,
+  options: HlsFetchOptions
+): Promise<HlsPlaylist> {
+  const { response, url: finalUrl } = await safeFetch(url, {
+    headers: { accept: "*/*", ...options.headers },
+    signal: options.signal,
+  });
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => {});
+    throw new HlsDownloadError(
+      `Playlist indirilemedi (HTTP ${response.status})`,
+      502
+    );
+  }
+
+  const bytes = await readLimited(response, MAX_PLAYLIST_BYTES);
+  return parseHlsPlaylist(new TextDecoder().decode(bytes), finalUrl.toString());
+}
+
+/**
+ * One continuous stream of the playlist's segments (after the #EXT-X-MAP
+ * section, if any), decrypted where needed. A few segments are fetched ahead;
+ * each is retried before the stream fails.
+ */
+export function createHlsStream(
+  playlist: HlsMediaPlaylist,
+  options: HlsFetchOptions = {}
+): ReadableStream<Uint8Array> {
+  const keys = new Map<string, Promise<CryptoKey>>();
+  const parts: Array<() => Promise<Uint8Array>> = [];
+
+  if (playlist.map) {
+    const map = playlist.map;
+    parts.push(() => fetchBytes(map.url, map.byteRange, options));
+  }
+  for (const segment of playlist.segments) {
+    parts.push(() => fetchSegment(segment, keys, options));
+  }
+
+  const pending: Promise<Uint8Array>[] = [];
+  let next = 0;
+  const fill = () => {
+    while (next < parts.length && pending.length < PREFETCH_SEGMENTS) {
+      const part = parts[next++]();
+      // Failures surface when the part is awaited
+      part.catch(() => {});
+      pending.push(part);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      fill();
+      const part = pending.shift();
+      if (!part) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(await part);
+    },
+    cancel() {
+      pending.length = 0;
+      next = parts.length;
+    },
+  });
+}
+
+async function fetchSegment(
+  segment: HlsSegment,
+  keys: Map<string, Promise<CryptoKey>>,
+  options: HlsFetchOptions
+): Promise<Uint8Array> {
+  const data = await fetchBytes(segment.url, segment.byteRange, options);
+  if (!segment.key?.url) return data;
+
+  let key = keys.get(segment.key.url);
+  if (!key) {
+    key = fetchBytes(segment.key.url, undefined, options).then((raw) => {
+      if (raw.byteLength !== 16) {
+        throw new HlsDownloadError("Geçersiz şifre anahtarı", 502);
+      }
+      return crypto.subtle.importKey(
+        "raw",
+        raw as Uint8Array<ArrayBuffer>,
+        "AES-CBC",
+        false,
+        ["decrypt"]
+      );
+    });
+    keys.set(segment.key.url, key);
+  }
+
+  const iv = segment.key.iv ?? sequenceIv(segment.sequence);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-CBC", iv: iv as Uint8Array<ArrayBuffer> },
+        await key,
+        data as Uint8Array<ArrayBuffer>
+      )
+    );
+  } catch {
+    throw new HlsDownloadError("Segment şifresi çözülemedi", 502);
+  }
+}
+
+// Without an IV attribute the media sequence number is the IV (big-endian)
+function sequenceIv(sequence: number): Uint8Array {
+  const iv = new Uint8Array(16);
+  new DataView(iv.buffer).setBigUint64(8, BigInt(sequence));
+  return iv;
+}
+
+/**
+ * Fetch a segment, key or map section of at most MAX_SEGMENT_BYTES.
+ * Network errors and 5xx, 408 and 429 responses are retried; other
+ * responses will not change on a second try.
+ */
+async function fetchBytes(
+  url: string,
+  byteRange: HlsByteRange | undefined,
+  options: HlsFetchOptions
+): Promise<Uint8Array> {
+  for (let attempt = 1; ; attempt++) {
+    let serverError = false;
+    try {
+      const { response } = await safeFetch(url, {
+        headers: {
+          accept: "*/*",
+          ...options.headers,
+          ...(byteRange && {
+            range: `bytes=${byteRange.offset}-${
+              byteRange.offset + byteRange.length - 1
+            }`,
+          }),
+        },
+        signal: options.signal,
+      });
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => {});
+        serverError =
+          response.status >= 500 ||
+          response.status === 408 ||
+          response.status === 429;
+        throw new HlsDownloadError(
+          `Segment indirilemedi (HTTP ${response.status})`,
+          502
+        );
+      }
+
+      // A server that ignores Range sends the whole resource; only the
+      // part up to the end of the range is read
+      const ignoredRange = byteRange && response.status !== 206;
+      const data = await readLimited(response, MAX_SEGMENT_BYTES, {
+        stopAt: ignoredRange ? byteRange.offset + byteRange.length : undefined,
+        tooLarge: () => new HlsDownloadError("Segment çok büyük", 502),
+      });
+      return ignoredRange
+        ? data.subarray(byteRange.offset, byteRange.offset + byteRange.length)
+        : data;
+    } catch (error) {
+      if (
+        error instanceof BlockedUrlError ||
+        (error instanceof HlsDownloadError && !serverError)
+      ) {
+        throw error;
+      }
+      if (attempt >= SEGMENT_ATTEMPTS || options.signal?.aborted) throw error;
+    }
+  }
+}
+
+/**
+ * Read a body, giving up once it passes `maxBytes`. With `stopAt`, reading
+ * ends once that many bytes are in.
+ */
+export async function readLimited(
+  response: Response,
+  maxBytes: number,
+  {
+    stopAt = Infinity,
+    tooLarge = () => new HlsDownloadError("Playlist çok büyük", 413),
+  }: { stopAt?: number; tooLarge?: () => Error } = {}
+): Promise<Uint8Array> {
+  const reader = response.body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (length < stopAt) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  if (length >= stopAt) await reader.cancel().catch(() => {});
+
+  return concatBytes(chunks, length);
+}
@@ -0,0 +1,175 @@
+export type JsonObjectEvent =
+  | { type: "field"; key: string; value: unknown }
+  | { type: "item"; value: unknown };
+
+// A single field or array item larger than this is refused
+const MAX_VALUE_LENGTH = 4 * 1024 * 1024;
+
+type ScanState =
+  | "start"
+  | "expect-key"
+  | "key"
+  | "colon"
+  | "expect-value"
+  | "value"
+  | "expect-item"
+  | "item"
+  | "done";
+
+/**
+ * Read a JSON object from a byte stream without holding all of it in memory.
+ * Every top-level field is emitted once it is complete, except `arrayKey`,
+ * whose array items are emitted one by one instead. Only the value being
+ * read is buffered.
+ */
+export async function* readJsonObjectStream(
+  stream: ReadableStream<Uint8Array>,
+  arrayKey: string
+): AsyncGenerator<JsonObjectEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let state: ScanState = "start";
+  let depth = 0;
+  let valueDepth = 0;
+  let inString = false;
+  let escaped = false;
+  let key = "";
+  let capture = "";
+
+  const finish = (text: string): unknown => {
+    const value = JSON.parse(text.trim());
+    capture = "";
+    return value;
+  };
+
+  try {
+    while (state !== "done") {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const text = decoder.decode(value, { stream: true });
+      const events: JsonObjectEvent[] = [];
+      // Start of the captured text within this chunk, -1 when not capturing
+      let start = state === "key" || state === "value" || state === "item"
+        ? 0
+        : -1;
+
+      for (let i = 0; i < text.length && state !== "done"; i++) {
+        const c = text[i];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (c === "\\") escaped = true;
+          else if (c === '"') {
+            inString = false;
+            if (state === "key") {
+              key = finish(capture + text.slice(start, i + 1)) as string;
+              start = -1;
+              state = "colon";
+            }
+          }
+          continue;
+        }
+
+        const whitespace = c === " " || c === "\n" || c === "\r" || c === "\t";
+
+        if (state === "expect-value" || state === "expect-item") {
+          if (whitespace) continue;
+          if (state === "expect-item" && c === ",") continue;
+          if (state === "expect-item" && c === "]") {
+            depth = 1;
+            state = "expect-key";
+            continue;
+          }
+          if (state === "expect-value" && key === arrayKey && c === "[") {
+            depth = 2;
+            state = "expect-item";
+            continue;
+          }
+          // Anything else starts a value; fall through to scan its first char
+          start = i;
+          valueDepth = depth;
+          state = state === "expect-value" ? "value" : "item";
+        }
+
+        switch (state) {
+          case "start":
+            if (c === "{") {
+              depth = 1;
+              state = "expect-key";
+            } else if (!whitespace) {
+              throw new SyntaxError("JSON gövdesi bir nesne olmalı");
+            }
+            break;
+          case "expect-key":
+            if (c === '"') {
+              inString = true;
+              start = i;
+              state = "key";
+            } else if (c === "}") {
+              state = "done";
+            } else if (!whitespace && c !== ",") {
+              throw new SyntaxError(`Beklenmeyen karakter: ${c}`);
+            }
+            break;
+          case "colon":
+            if (c === ":") state = "expect-value";
+            else if (!whitespace) {
+              throw new SyntaxError(`Beklenmeyen karakter: ${c}`);
+            }
+            break;
+          case "value":
+          case "item":
+            if (c === '"') {
+              inString = true;
+            } else if (c === "{" || c === "[") {
+              depth++;
+            } else if (
+              depth === valueDepth &&
+              (c === "," || c === "}" || c === "]")
+            ) {
+              const parsed = finish(capture + text.slice(start, i));
+              start = -1;
+              events.push(
+                state === "value"
+                  ? { type: "field", key, value: parsed }
+                  : { type: "item", value: parsed }
+              );
+              // The closing bracket belongs to the enclosing container
+              if (c === ",") {
+                state = state === "value" ? "expect-key" : "expect-item";
+              } else if (c === "]" && state === "item") {
+                depth = 1;
+                state = "expect-key";
+              } else if (c === "}" && state === "value") {
+                state = "done";
+              } else {
+                throw new SyntaxError(`Beklenmeyen karakter: ${c}`);
+              }
+            } else if (c === "}" || c === "]") {
+              depth--;
+            }
+            break;
+        }
+      }
+
+      if (start !== -1) {
+        capture += text.slice(start);
+        if (capture.length > MAX_VALUE_LENGTH) {
+          throw new SyntaxError("JSON değeri çok büyük");
+        }
+      }
+
+      yield* events;
+    }
+
+    if (state !== "done") {
+      throw new SyntaxError("JSON gövdesi beklenmedik şekilde bitti");
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
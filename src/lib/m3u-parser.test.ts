@@ -0,0 +1,259 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getAttribute,
+  getStreamScheme,
+  isBrowserPlayable,
+  parseAttributes,
+  parseM3U,
+} from "./m3u-parser";
+import { generateExport, toByteStream } from "./playlist-export";
+
+async function exportM3U(
+  ...args: Parameters<typeof generateExport>
+): Promise<string> {
+  return new Response(toByteStream(generateExport(...args))).text();
+}
+
+describe("parseAttributes", () => {
+  test("keeps the key as written", () => {
+    const { attributes, title } = parseAttributes(
+      'tvg-ID="trt1.tr" Group-Title="Ulusal",TRT 1'
+    );
+    expect(attributes).toEqual({
+      "tvg-ID": "trt1.tr",
+      "Group-Title": "Ulusal",
+    });
+    expect(title).toBe("TRT 1");
+  });
+
+  test("treats keys differing only in case as one attribute", () => {
+    const { attributes } = parseAttributes('tvg-id="a" TVG-ID="b",Kanal');
+    expect(attributes).toEqual({ "tvg-id": "b" });
+  });
+});
+
+describe("getAttribute", () => {
+  test("looks keys up ignoring case", () => {
+    expect(getAttribute({ "Tvg-Logo": "x.png" }, "tvg-logo")).toBe("x.png");
+    expect(getAttribute({ "tvg-logo": "x.png" }, "tvg-id")).toBeUndefined();
+  });
+});
+
+describe("parseM3U", () => {
+  const playlist = [
+    '#EXTM3U Tvg-Shift="2"',
+    '#EXTINF:-1 TVG-ID="trt1.tr" tvg-Logo="l.png" GROUP-TITLE="Ulusal",TRT 1',
+    "http://a.example/trt1.ts",
+  ].join("\n");
+
+  test("reads the well-known fields whatever their case", () => {
+    const [channel] = parseM3U(playlist).channels;
+    expect(channel.tvgId).toBe("trt1.tr");
+    expect(channel.tvgLogo).toBe("l.png");
+    expect(channel.groupTitle).toBe("Ulusal");
+    expect(channel.attributes).toMatchObject({
+      "TVG-ID": "trt1.tr",
+      "tvg-Logo": "l.png",
+      "GROUP-TITLE": "Ulusal",
+      "Tvg-Shift": "2",
+    });
+  });
+
+  test("does not inherit a header value the entry already sets", () => {
+    const [channel] = parseM3U(
+      '#EXTM3U tvg-shift="2"\n#EXTINF:-1 TVG-SHIFT="1",A\nhttp://a.example/a.ts'
+    ).channels;
+    expect(channel.attributes).toEqual({ "TVG-SHIFT": "1" });
+  });
+
+  test("keeps the first header value across differently cased repeats", () => {
+    const result = parseM3U(
+      '#EXTM3U url-tvg="a.xml"\n#EXTM3U URL-TVG="b.xml"\n'
+    );
+    expect(result.playlistAttributes).toEqual({ "url-tvg": "a.xml" });
+  });
+
+  test("writes each key back once, in its original case", async () => {
+    const { channels, playlistAttributes } = parseM3U(playlist);
+    const text = await exportM3U("m3u", channels, { playlistAttributes });
+    const lines = text.split("\n");
+
+    expect(lines[0]).toBe('#EXTM3U Tvg-Shift="2"');
+    expect(lines[1]).toBe(
+      '#EXTINF:-1 TVG-ID="trt1.tr" tvg-Logo="l.png" GROUP-TITLE="Ulusal" ' +
+        'tvg-name="TRT 1",TRT 1'
+    );
+  });
+});
+
+describe("last line", () => {
+  test("completes a channel without a final newline", () => {
+    const result = parseM3U(
+      "#EXTM3U\r\n#EXTINF:-1,A\r\nhttp://a.example/1\r\n#EXTINF:-1,B\r\n" +
+        "http://a.example/2"
+    );
+    expect(result.channels.map((channel) => channel.url)).toEqual([
+      "http://a.example/1",
+      "http://a.example/2",
+    ]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test("reports a final #EXTINF that never got its URL", () => {
+    const result = parseM3U("#EXTM3U\n#EXTINF:-1,A\nhttp://a/1\n#EXTINF:-1,B");
+    expect(result.channels).toHaveLength(1);
+    expect(result.skippedEntries).toBe(1);
+    expect(result.diagnostics).toMatchObject([
+      { code: "missing-url", line: 4 },
+    ]);
+  });
+});
+
+describe("header attributes", () => {
+  test("passes on catch-up and shift defaults, not playlist metadata", () => {
+    const [channel] = parseM3U(
+      '#EXTM3U url-tvg="e.xml" refresh="3600" tvg-shift="2" ' +
+        'CATCHUP="shift" catchup-days="7"\n' +
+        '#EXTINF:-1 tvg-id="a",A\nhttp://a.example/a.ts'
+    ).channels;
+    expect(channel.attributes).toEqual({
+      "tvg-id": "a",
+      "tvg-shift": "2",
+      CATCHUP: "shift",
+      "catchup-days": "7",
+    });
+  });
+
+  test("does not pass on empty header values", () => {
+    const [channel] = parseM3U(
+      '#EXTM3U tvg-shift=""\n#EXTINF:-1,A\nhttp://a.example/a.ts'
+    ).channels;
+    expect(channel.attributes).toEqual({});
+  });
+
+  test("applies a repeated header to the channels after it", () => {
+    const result = parseM3U(
+      [
+        "#EXTM3U",
+        "#EXTINF:-1,A",
+        "http://a.example/a.ts",
+        '#EXTM3U catchup="append" url-tvg="b.xml"',
+        "#EXTINF:-1,B",
+        "http://b.example/b.ts",
+      ].join("\n")
+    );
+    expect(result.channels.map((channel) => channel.attributes)).toEqual([
+      {},
+      { catchup: "append" },
+    ]);
+    expect(result.playlistAttributes).toEqual({
+      catchup: "append",
+      "url-tvg": "b.xml",
+    });
+    expect(result.diagnostics).toEqual([]);
+  });
+});
+
+describe("stream URIs", () => {
+  test("classifies every scheme the parser keeps", () => {
+    const schemes = {
+      "HTTPS://a.example/1.m3u8": "https",
+      "udp://@239.0.0.1:1234": "udp",
+      "rtp://239.0.0.1:5000": "rtp",
+      "rtmps://a.example/live": "rtmp",
+      "rtsps://a.example/cam": "rtsp",
+      "mmsh://a.example/radio": "mms",
+      "srt://a.example:9000": "srt",
+      "file:///media/a.ts": "file",
+      "/media/a.ts": "file",
+      "C:\\media\\a.ts": "file",
+      "\\\\nas\\media\\a.ts": "file",
+      "media/a.ts": "relative",
+      "acestream://0123abcd": "other",
+    };
+    for (const [url, scheme] of Object.entries(schemes)) {
+      expect([url, getStreamScheme(url)]).toEqual([url, scheme]);
+    }
+  });
+
+  test("keeps non-HTTP entries but marks them unplayable", () => {
+    const { channels } = parseM3U(
+      "#EXTM3U\n#EXTINF:-1,Multicast\nudp://@239.0.0.1:1234\n" +
+        "#EXTINF:-1,Web\nhttps://a.example/web.m3u8\n"
+    );
+    expect(channels.map((channel) => channel.scheme)).toEqual([
+      "udp",
+      "https",
+    ]);
+    expect(channels.map(isBrowserPlayable)).toEqual([false, true]);
+  });
+
+  test("resolves relative and rooted paths against the playlist URL", () => {
+    const entries = [
+      "kanal/1.ts",
+      "../2.ts",
+      "/live/3.ts",
+      "udp://@239.0.0.1:1234",
+      "C:\\media\\4.ts",
+    ];
+    const playlist = entries
+      .map((url, i) => `#EXTINF:-1,K${i}\n${url}`)
+      .join("\n");
+
+    const resolved = parseM3U(`#EXTM3U\n${playlist}\n`, {
+      baseUrl: "http://panel.example/lists/tr.m3u?token=1",
+    }).channels;
+    expect(resolved.map((channel) => [channel.url, channel.scheme])).toEqual([
+      ["http://panel.example/lists/kanal/1.ts", "http"],
+      ["http://panel.example/2.ts", "http"],
+      ["http://panel.example/live/3.ts", "http"],
+      ["udp://@239.0.0.1:1234", "udp"],
+      ["C:\\media\\4.ts", "file"],
+    ]);
+
+    // Without a source URL the entries are kept as written
+    const unresolved = parseM3U(`#EXTM3U\n${playlist}\n`).channels;
+    expect(unresolved.map((channel) => channel.url)).toEqual(entries);
+    expect(unresolved[0].scheme).toBe("relative");
+  });
+});
+
+describe("durations", () => {
+  test("keeps the #EXTINF duration in seconds", () => {
+    const { channels } = parseM3U(
+      [
+        "#EXTM3U",
+        '#EXTINF:5400 tvg-id="film",Film',
+        "http://a.example/film.mkv",
+        "#EXTINF:-1,Canlı",
+        "http://a.example/live.ts",
+        "#EXTINF:90.5,Fragman",
+        "http://a.example/trailer.mp4",
+        "#EXTINF:0,Sıfır",
+        "http://a.example/zero.ts",
+        "#EXTINF:,Süresiz",
+        "http://a.example/none.ts",
+        "#EXTINF:-1,1984",
+        "http://a.example/1984.mp4",
+      ].join("\n")
+    );
+    expect(
+      channels.map((channel) => [channel.tvgName, channel.duration])
+    ).toEqual([
+      ["Film", 5400],
+      ["Canlı", -1],
+      ["Fragman", 90.5],
+      ["Sıfır", 0],
+      ["Süresiz", undefined],
+      ["1984", -1],
+    ]);
+  });
+
+  test("writes the duration back on export", async () => {
+    const { channels } = parseM3U(
+      '#EXTM3U\n#EXTINF:5400 tvg-id="film",Film\nhttp://a.example/film.mkv\n'
+    );
+    const text = await exportM3U("m3u", channels);
+    expect(text.split("\n")[1]).toStartWith("#EXTINF:5400 ");
+  });
+});
@@ -0,0 +1,811 @@
+import { ChannelIdGenerator } from "@/lib/channel-id";
+
+export interface M3UChannel {
+  /** Derived from the channel's content, so it survives re-uploads */
+  id: string;
+  tvgName: string;
+  tvgNameAttribute?: string;
+  tvgLogo?: string;
+  tvgId?: string;
+  tvgCountry?: string;
+  tvgLanguage?: string;
+  groupTitle?: string;
+  /** #EXTINF duration in seconds; -1 (or 0) for live streams */
+  duration?: number;
+  /**
+   * Every key="value" pair from the #EXTINF line, in original order, plus
+   * the #EXTM3U defaults (tvg-shift, catchup, ...) the line did not override
+   */
+  attributes: Record<string, string>;
+  /** #EXTVLCOPT options, e.g. { "http-user-agent": "..." } */
+  vlcOptions?: Record<string, string>;
+  /** #KODIPROP properties, e.g. { "inputstream.adaptive.license_type": "..." } */
+  kodiProps?: Record<string, string>;
+  /** Request headers from the #EXTHTTP JSON object */
+  httpHeaders?: Record<string, string>;
+  url: string;
+  /** Protocol of `url`, used to tell which entries the browser can play */
+  scheme: StreamScheme;
+  /** Set when the source says what the entry is (e.g. Xtream Codes panels) */
+  contentType?: ContentType;
+  /** Stream properties when the entry is a variant of an HLS master playlist */
+  hlsVariant?: HlsVariant;
+}
+
+export type ContentType = "live" | "vod" | "series";
+
+export type StreamScheme =
+  | "http"
+  | "https"
+  | "rtmp"
+  | "rtsp"
+  | "udp"
+  | "rtp"
+  | "mms"
+  | "srt"
+  | "file"
+  | "relative"
+  | "other";
+
+/**
+ * What kind of document was parsed: an IPTV channel list, or an HLS
+ * playlist that was uploaded by mistake
+ */
+export type PlaylistType = "m3u" | "hls-master" | "hls-media";
+
+export interface HlsVariant {
+  /** Peak bits per second from BANDWIDTH */
+  bandwidth: number;
+  averageBandwidth?: number;
+  /** e.g. "1280x720" */
+  resolution?: string;
+  codecs?: string;
+  frameRate?: number;
+}
+
+export interface HlsMediaInfo {
+  segmentCount: number;
+  /** Seconds, from #EXT-X-TARGETDURATION */
+  targetDuration?: number;
+  /** Sum of the #EXTINF segment durations in seconds */
+  totalDuration: number;
+  /** #EXT-X-ENDLIST was present, i.e. VOD rather than a live window */
+  endList: boolean;
+}
+
+export interface M3UParserOptions {
+  /** URL the playlist was loaded from; relative entries resolve against it */
+  baseUrl?: string;
+}
+
+type ChannelDirectives = Pick<
+  M3UChannel,
+  "vlcOptions" | "kodiProps" | "httpHeaders"
+>;
+
+export interface M3UGroup {
+  name: string;
+  count: number;
+}
+
+export type M3UDiagnosticSeverity = "warning" | "error";
+
+export type M3UDiagnosticCode =
+  | "missing-header"
+  | "missing-url"
+  | "missing-extinf"
+  | "unbalanced-quotes"
+  | "invalid-directive"
+  | "skipped-series";
+
+export interface M3UDiagnostic {
+  severity: M3UDiagnosticSeverity;
+  code: M3UDiagnosticCode;
+  /** 1-based line number in the source playlist; 0 for Xtream imports */
+  line: number;
+  raw: string;
+  reason: string;
+}
+
+export interface M3UDiagnosticSummary {
+  severity: M3UDiagnosticSeverity;
+  code: M3UDiagnosticCode;
+  reason: string;
+  count: number;
+}
+
+export interface M3UParseResult {
+  channels: M3UChannel[];
+  totalChannels: number;
+  groups: M3UGroup[];
+  /** First MAX_DIAGNOSTICS problems found while parsing */
+  diagnostics: M3UDiagnostic[];
+  /** Problem counts per code, including those beyond MAX_DIAGNOSTICS */
+  diagnosticSummary: M3UDiagnosticSummary[];
+  /** Entries dropped because they could not be completed */
+  skippedEntries: number;
+  playlistType: PlaylistType;
+  /** key="value" pairs from the #EXTM3U header (url-tvg, x-tvg-url, ...) */
+  playlistAttributes: Record<string, string>;
+  /** Segment statistics when playlistType is "hls-media" */
+  hlsMedia?: HlsMediaInfo;
+}
+
+export const DEFAULT_GROUP_TITLE = "Diğer";
+
+export const HLS_VARIANT_GROUP_TITLE = "HLS Variants";
+
+/**
+ * #EXTM3U attributes that also apply to every channel unless its #EXTINF
+ * line sets them; the rest (url-tvg, refresh, ...) describe the playlist
+ */
+export const INHERITED_PLAYLIST_ATTRIBUTES = [
+  "tvg-shift",
+  "catchup",
+  "catchup-days",
+  "catchup-source",
+  "catchup-correction",
+];
+
+// Tags that only appear in HLS media (segment) playlists
+const HLS_MEDIA_TAGS = [
+  "#EXT-X-TARGETDURATION",
+  "#EXT-X-MEDIA-SEQUENCE",
+  "#EXT-X-DISCONTINUITY-SEQUENCE",
+  "#EXT-X-PLAYLIST-TYPE",
+  "#EXT-X-ENDLIST",
+];
+
+export const MAX_DIAGNOSTICS = 1000;
+
+export const DIAGNOSTIC_DETAILS: Record<
+  M3UDiagnosticCode,
+  { severity: M3UDiagnosticSeverity; reason: string }
+> = {
+  "missing-header": {
+    severity: "warning",
+    reason: "Playlist does not start with #EXTM3U",
+  },
+  "missing-url": {
+    severity: "error",
+    reason: "#EXTINF is not followed by a stream URL; entry skipped",
+  },
+  "missing-extinf": {
+    severity: "error",
+    reason: "Stream URL has no preceding #EXTINF; entry skipped",
+  },
+  "unbalanced-quotes": {
+    severity: "warning",
+    reason: "Unbalanced quotes in #EXTINF attributes; name may be wrong",
+  },
+  "invalid-directive": {
+    severity: "warning",
+    reason: "Malformed #EXTVLCOPT, #KODIPROP or #EXTHTTP line ignored",
+  },
+  "skipped-series": {
+    severity: "error",
+    reason: "Xtream series could not be loaded; its episodes are missing",
+  },
+};
+
+// Raw lines are trimmed to keep the report small for huge single-line junk
+const MAX_RAW_LINE_LENGTH = 300;
+
+/**
+ * Streaming M3U parser - accepts text in arbitrary chunks and emits
+ * channels as soon as their URL line is complete
+ */
+export class StreamingM3UParser {
+  private channels: M3UChannel[] = [];
+  private currentInfo: Partial<M3UChannel> = {};
+  private currentDirectives: ChannelDirectives = {};
+  private pendingExtInf: { line: number; raw: string } | null = null;
+  private diagnostics: M3UDiagnostic[] = [];
+  private diagnosticCounts = new Map<M3UDiagnosticCode, number>();
+  private buffer = "";
+  private ids = new ChannelIdGenerator();
+  private lineNumber = 0;
+  private sawContent = false;
+  private playlistType: PlaylistType = "m3u";
+  private pendingVariant: HlsVariant | null = null;
+  private hlsMedia: HlsMediaInfo | null = null;
+  private playlistAttributes: Record<string, string> = {};
+
+  constructor(private options: M3UParserOptions = {}) {}
+
+  parse(chunk: string): M3UChannel[] {
+    const newChannels: M3UChannel[] = [];
+
+    // Append chunk to buffer
+    this.buffer += chunk;
+
+    // Process complete lines
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() || ""; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      const channel = this.processLine(line);
+      if (channel) newChannels.push(channel);
+    }
+
+    return newChannels;
+  }
+
+  /**
+   * Process the last line if the input did not end with a newline. Returns
+   * the channels it completed, like parse(); calling it again is a no-op.
+   */
+  finalize(): M3UChannel[] {
+    const newChannels: M3UChannel[] = [];
+    if (this.buffer) {
+      const channel = this.processLine(this.buffer);
+      if (channel) newChannels.push(channel);
+      this.buffer = "";
+    }
+    if (this.pendingExtInf) {
+      const { line, raw } = this.pendingExtInf;
+      this.report("missing-url", line, raw);
+      this.pendingExtInf = null;
+    }
+    return newChannels;
+  }
+
+  /**
+   * Finalize and assemble the full parse result
+   */
+  toResult(): M3UParseResult {
+    this.finalize();
+    const channels = this.channels;
+    const diagnosticSummary = Array.from(this.diagnosticCounts.entries()).map(
+      ([code, count]) => ({ ...DIAGNOSTIC_DETAILS[code], code, count })
+    );
+
+    return {
+      channels,
+      totalChannels: channels.length,
+      groups: buildGroups(channels),
+      diagnostics: [...this.diagnostics].sort((a, b) => a.line - b.line),
+      diagnosticSummary,
+      skippedEntries:
+        (this.diagnosticCounts.get("missing-url") || 0) +
+        (this.diagnosticCounts.get("missing-extinf") || 0),
+      playlistType: this.playlistType,
+      playlistAttributes: { ...this.playlistAttributes },
+      hlsMedia: this.hlsMedia ? { ...this.hlsMedia } : undefined,
+    };
+  }
+
+  private processLine(line: string): M3UChannel | null {
+    this.lineNumber++;
+    // A BOM that survived decoding would otherwise hide the #EXTM3U header
+    const trimmed = (
+      this.lineNumber === 1 ? line.replace(/^\uFEFF/, "") : line
+    ).trim();
+
+    if (!trimmed) return null;
+
+    const isFirstContent = !this.sawContent;
+    this.sawContent = true;
+
+    if (trimmed.startsWith("#EXTM3U")) {
+      // Concatenated playlists repeat the header; the first value wins
+      const { attributes } = parseAttributes(trimmed.slice(7));
+      for (const [key, value] of Object.entries(attributes)) {
+        if (findAttributeKey(this.playlistAttributes, key) === undefined) {
+          this.playlistAttributes[key] = value;
+        }
+      }
+      return null;
+    }
+    if (isFirstContent) this.report("missing-header", this.lineNumber, trimmed);
+
+    if (trimmed.startsWith("#EXT-X-")) return this.processHlsTag(trimmed);
+
+    if (this.hlsMedia) {
+      // Segments of a single stream, not channels
+      if (trimmed.startsWith("#EXTINF:")) {
+        this.hlsMedia.totalDuration += parseExtInfDuration(trimmed) || 0;
+      } else if (!trimmed.startsWith("#")) {
+        this.hlsMedia.segmentCount++;
+      }
+      return null;
+    }
+
+    if (trimmed.startsWith("#EXTINF:")) {
+      // A previous #EXTINF that never got its URL is lost
+      if (this.pendingExtInf) {
+        const { line, raw } = this.pendingExtInf;
+        this.report("missing-url", line, raw);
+      }
+
+      // Parse channel info
+      const { info, unbalancedQuotes } = parseExtInfo(
+        trimmed,
+        this.playlistAttributes
+      );
+      if (unbalancedQuotes) {
+        this.report("unbalanced-quotes", this.lineNumber, trimmed);
+      }
+      this.currentInfo = info;
+      this.pendingExtInf = { line: this.lineNumber, raw: trimmed };
+      return null;
+    }
+
+    if (trimmed.startsWith("#")) {
+      // Per-channel directives may appear before or after #EXTINF
+      if (!parseDirective(trimmed, this.currentDirectives)) {
+        this.report("invalid-directive", this.lineNumber, trimmed);
+      }
+      return null;
+    }
+
+    // Any other line is a stream URI - complete channel entry
+    let channel: M3UChannel | null = null;
+    if (this.pendingVariant) {
+      channel = this.createVariantChannel(trimmed, this.pendingVariant);
+      this.channels.push(channel);
+      this.pendingVariant = null;
+    } else if (this.currentInfo.tvgName) {
+      const url = resolveStreamUrl(trimmed, this.options.baseUrl);
+      channel = {
+        ...this.currentInfo,
+        ...this.currentDirectives,
+        url,
+        scheme: getStreamScheme(url),
+      } as M3UChannel;
+      channel.id = this.ids.next(channel);
+      this.channels.push(channel);
+    } else {
+      this.report("missing-extinf", this.lineNumber, trimmed);
+    }
+    this.currentInfo = {};
+    this.currentDirectives = {};
+    this.pendingExtInf = null;
+    return channel;
+  }
+
+  /**
+   * Track HLS tags: #EXT-X-STREAM-INF marks a master playlist whose next URI
+   * is a variant, media-only tags mark a segment playlist
+   */
+  private processHlsTag(line: string): M3UChannel | null {
+    if (line.startsWith("#EXT-X-STREAM-INF:")) {
+      if (this.playlistType === "m3u" && this.channels.length === 0) {
+        this.playlistType = "hls-master";
+      }
+      this.pendingVariant = parseStreamInf(line.slice(18));
+      return null;
+    }
+
+    const tag = line.split(":", 1)[0];
+    if (!HLS_MEDIA_TAGS.includes(tag)) return null;
+
+    // A stray tag inside a channel list does not make it a media playlist
+    let channel: M3UChannel | null = null;
+    if (
+      !this.hlsMedia &&
+      this.playlistType === "m3u" &&
+      this.channels.length === 0
+    ) {
+      this.playlistType = "hls-media";
+      this.hlsMedia = { segmentCount: 0, totalDuration: 0, endList: false };
+      this.currentInfo = {};
+      this.currentDirectives = {};
+      this.pendingExtInf = null;
+      channel = this.createMediaPlaylistChannel();
+    }
+    if (!this.hlsMedia) return null;
+
+    if (tag === "#EXT-X-TARGETDURATION") {
+      const value = Number(line.slice(tag.length + 1));
+      if (Number.isFinite(value)) this.hlsMedia.targetDuration = value;
+    } else if (tag === "#EXT-X-ENDLIST") {
+      this.hlsMedia.endList = true;
+    }
+    return channel;
+  }
+
+  private createVariantChannel(uri: string, variant: HlsVariant): M3UChannel {
+    const url = resolveStreamUrl(uri, this.options.baseUrl);
+    const name = [
+      variant.resolution,
+      variant.bandwidth ? formatBandwidth(variant.bandwidth) : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+    const tvgName = name || `Variant ${this.channels.length + 1}`;
+    return {
+      id: this.ids.next({ tvgName, groupTitle: HLS_VARIANT_GROUP_TITLE, url }),
+      tvgName,
+      groupTitle: HLS_VARIANT_GROUP_TITLE,
+      attributes: {},
+      url,
+      scheme: getStreamScheme(url),
+      hlsVariant: variant,
+    };
+  }
+
+  /**
+   * A media playlist is one stream; when its URL is known it can still be
+   * offered as a single playable entry
+   */
+  private createMediaPlaylistChannel(): M3UChannel | null {
+    const url = this.options.baseUrl;
+    if (!url) return null;
+
+    let name = url;
+    try {
+      name = decodeURIComponent(
+        new URL(url).pathname.split("/").pop() || url
+      );
+    } catch {
+      // Keep the raw URL as name
+    }
+
+    const channel: M3UChannel = {
+      id: this.ids.next({ tvgName: name, groupTitle: DEFAULT_GROUP_TITLE, url }),
+      tvgName: name,
+      groupTitle: DEFAULT_GROUP_TITLE,
+      attributes: {},
+      url,
+      scheme: getStreamScheme(url),
+    };
+    this.channels.push(channel);
+    return channel;
+  }
+
+  private report(code: M3UDiagnosticCode, line: number, raw: string): void {
+    this.diagnosticCounts.set(code, (this.diagnosticCounts.get(code) || 0) + 1);
+    if (this.diagnostics.length >= MAX_DIAGNOSTICS) return;
+
+    this.diagnostics.push({
+      ...DIAGNOSTIC_DETAILS[code],
+      code,
+      line,
+      raw: raw.slice(0, MAX_RAW_LINE_LENGTH),
+    });
+  }
+}
+
+/**
+ * Classify a stream URI by protocol
+ */
+export function getStreamScheme(url: string): StreamScheme {
+  // Windows drive paths (C:\media\...) would otherwise look like a scheme
+  if (/^[a-z]:[\\/]/i.test(url) || url.startsWith("\\\\")) return "file";
+
+  const match = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!match) return url.startsWith("/") ? "file" : "relative";
+
+  const scheme = match[1].toLowerCase();
+  switch (scheme) {
+    case "http":
+    case "https":
+    case "rtsp":
+    case "udp":
+    case "rtp":
+    case "mms":
+    case "srt":
+    case "file":
+      return scheme;
+    case "rtmp":
+    case "rtmps":
+    case "rtmpe":
+    case "rtmpt":
+      return "rtmp";
+    case "rtsps":
+      return "rtsp";
+    case "mmsh":
+      return "mms";
+    default:
+      return "other";
+  }
+}
+
+/**
+ * Resolve relative entries against the playlist URL when one is known
+ */
+function resolveStreamUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl) return url;
+  const scheme = getStreamScheme(url);
+  if (scheme !== "relative" && !(scheme === "file" && url.startsWith("/")))
+    return url;
+
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Whether the in-page player can load the stream at all
+ */
+export function isBrowserPlayable(channel: M3UChannel): boolean {
+  const scheme = getStreamScheme(channel.url);
+  return scheme === "http" || scheme === "https";
+}
+
+/**
+ * Whether an entry is of the given content type. Sources that know the type
+ * (Xtream panels) win over guessing from the group title.
+ */
+export function matchesContentType(
+  channel: M3UChannel,
+  type: ContentType
+): boolean {
+  if (channel.contentType) return channel.contentType === type;
+
+  const group = channel.groupTitle?.toLowerCase() || "";
+  switch (type) {
+    case "vod":
+      return (
+        group.includes("vod") ||
+        group.includes("film") ||
+        group.includes("movie")
+      );
+    case "series":
+      return (
+        group.includes("dizi") ||
+        group.includes("series") ||
+        group.includes("show")
+      );
+    case "live":
+      return (
+        !group.includes("vod") &&
+        !group.includes("film") &&
+        !group.includes("dizi")
+      );
+  }
+}
+
+/**
+ * Parse a single #EXTINF line into channel metadata
+ */
+function parseExtInfo(
+  line: string,
+  playlistAttributes: Record<string, string> = {}
+): {
+  info: Partial<M3UChannel>;
+  unbalancedQuotes: boolean;
+} {
+  const infoLine = line.substring(8); // Remove #EXTINF:
+
+  // Duration comes first (usually -1 for live streams)
+  const durationMatch = infoLine.match(/^(-?\d+(?:\.\d+)?)\s*/);
+  const rest = durationMatch
+    ? infoLine.slice(durationMatch[0].length)
+    : infoLine;
+
+  const { attributes, title, unbalancedQuotes } = parseAttributes(rest);
+  for (const key of INHERITED_PLAYLIST_ATTRIBUTES) {
+    const headerKey = findAttributeKey(playlistAttributes, key);
+    if (
+      headerKey &&
+      playlistAttributes[headerKey] &&
+      findAttributeKey(attributes, key) === undefined
+    ) {
+      attributes[headerKey] = playlistAttributes[headerKey];
+    }
+  }
+
+  const info: Partial<M3UChannel> = {
+    tvgName: title || getAttribute(attributes, "tvg-name") || "Unknown",
+    tvgNameAttribute: getAttribute(attributes, "tvg-name"),
+    tvgLogo: getAttribute(attributes, "tvg-logo"),
+    tvgId: getAttribute(attributes, "tvg-id"),
+    tvgCountry: getAttribute(attributes, "tvg-country"),
+    tvgLanguage: getAttribute(attributes, "tvg-language"),
+    groupTitle: getAttribute(attributes, "group-title") || DEFAULT_GROUP_TITLE,
+    duration: durationMatch ? Number(durationMatch[1]) : undefined,
+    attributes,
+  };
+
+  return { info, unbalancedQuotes };
+}
+
+/**
+ * Human readable bit rate, e.g. "2.6 Mbps" or "640 kbps"
+ */
+export function formatBandwidth(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+/**
+ * Duration in seconds from the start of an #EXTINF line
+ */
+function parseExtInfDuration(line: string): number | undefined {
+  const match = line.substring(8).match(/^\s*(-?\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Read an HLS attribute list: comma separated KEY=value pairs, where quoted
+ * values may contain commas. Keys are upper-cased, quotes removed.
+ */
+export function parseHlsAttributes(input: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/gi;
+  for (const [, key, value] of input.matchAll(pattern)) {
+    attributes[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return attributes;
+}
+
+/**
+ * Read the attribute list of an #EXT-X-STREAM-INF tag
+ */
+export function parseStreamInf(input: string): HlsVariant {
+  const attributes = parseHlsAttributes(input);
+
+  const number = (value?: string) =>
+    value && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+  return {
+    bandwidth: number(attributes.BANDWIDTH) || 0,
+    averageBandwidth: number(attributes["AVERAGE-BANDWIDTH"]),
+    resolution: attributes.RESOLUTION || undefined,
+    codecs: attributes.CODECS || undefined,
+    frameRate: number(attributes["FRAME-RATE"]),
+  };
+}
+
+/**
+ * Collect #EXTVLCOPT, #KODIPROP and #EXTHTTP lines into the pending
+ * directives; returns false for a malformed directive
+ */
+function parseDirective(
+  line: string,
+  directives: ChannelDirectives
+): boolean {
+  const separator = line.indexOf(":");
+  if (separator === -1) return true;
+
+  const tag = line.slice(0, separator).toUpperCase();
+  const value = line.slice(separator + 1).trim();
+
+  if (tag === "#EXTVLCOPT" || tag === "#KODIPROP") {
+    const equals = value.indexOf("=");
+    if (equals <= 0) return false;
+
+    const field = tag === "#EXTVLCOPT" ? "vlcOptions" : "kodiProps";
+    directives[field] = {
+      ...directives[field],
+      [value.slice(0, equals).trim()]: value.slice(equals + 1).trim(),
+    };
+  } else if (tag === "#EXTHTTP") {
+    try {
+      const parsed = JSON.parse(value);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+        return false;
+
+      const headers: Record<string, string> = { ...directives.httpHeaders };
+      for (const [name, headerValue] of Object.entries(parsed)) {
+        if (headerValue != null) headers[name] = String(headerValue);
+      }
+      directives.httpHeaders = headers;
+    } catch {
+      return false;
+    }
+  }
+
+  // Other comment lines are not ours to judge
+  return true;
+}
+
+/**
+ * Split the part of an #EXTINF line after the duration into its key="value"
+ * attributes and the display title following the first unquoted comma
+ */
+export function parseAttributes(input: string): {
+  attributes: Record<string, string>;
+  title: string;
+  unbalancedQuotes: boolean;
+} {
+  const attributes: Record<string, string> = {};
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ",") {
+      return {
+        attributes,
+        title: input.slice(i + 1).trim(),
+        unbalancedQuotes: false,
+      };
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Attribute key runs until "=", whitespace or the title comma
+    let keyEnd = i;
+    while (keyEnd < input.length && !/[\s=,]/.test(input[keyEnd])) keyEnd++;
+    const key = input.slice(i, keyEnd);
+    i = keyEnd;
+
+    if (input[i] !== "=") continue;
+    i++;
+
+    let value: string;
+    const quote = input[i];
+    if (quote === '"' || quote === "'") {
+      const close = input.indexOf(quote, i + 1);
+      if (close === -1) {
+        // Keep what we have, but the title is unrecoverable
+        value = input.slice(i + 1);
+        if (key) attributes[findAttributeKey(attributes, key) ?? key] = value;
+        return { attributes, title: "", unbalancedQuotes: true };
+      }
+      const valueEnd = close;
+      value = input.slice(i + 1, valueEnd);
+      i = valueEnd + 1;
+    } else {
+      let valueEnd = i;
+      while (valueEnd < input.length && !/[\s,]/.test(input[valueEnd]))
+        valueEnd++;
+      value = input.slice(i, valueEnd);
+      i = valueEnd;
+    }
+
+    if (key) attributes[findAttributeKey(attributes, key) ?? key] = value;
+  }
+
+  return { attributes, title: "", unbalancedQuotes: false };
+}
+
+/**
+ * Key under which an attribute is stored, whatever capitalization the
+ * playlist used (tvg-ID, Group-Title, ...)
+ */
+export function findAttributeKey(
+  attributes: Record<string, string>,
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(attributes).find((key) => key.toLowerCase() === lower);
+}
+
+/**
+ * Value of an attribute, matching its name case-insensitively
+ */
+export function getAttribute(
+  attributes: Record<string, string>,
+  name: string
+): string | undefined {
+  const key = findAttributeKey(attributes, name);
+  return key === undefined ? undefined : attributes[key];
+}
+
+/**
+ * Count channels per group, in order of first appearance
+ */
+export function buildGroups(channels: M3UChannel[]): M3UGroup[] {
+  const groupMap = new Map<string, number>();
+  channels.forEach((channel) => {
+    const groupName = channel.groupTitle || DEFAULT_GROUP_TITLE;
+    groupMap.set(groupName, (groupMap.get(groupName) || 0) + 1);
+  });
+
+  return Array.from(groupMap.entries()).map(([name, count]) => ({
+    name,
+    count,
+  }));
+}
+
+/**
+ * Parse a complete M3U document held in memory
+ */
+export function parseM3U(
+  content: string,
+  options: M3UParserOptions = {}
+): M3UParseResult {
+  const parser = new StreamingM3UParser(options);
+  parser.parse(content);
+  return parser.toResult();
+}
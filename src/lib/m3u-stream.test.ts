@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import {
+  PlaylistTooLargeError,
+  parsePlaylist,
+  parsePlaylistStream,
+  readNdjson,
+} from "./m3u-stream";
+import { ENCODING_SAMPLE_SIZE } from "./text-encoding";
+
+const encoder = new TextEncoder();
+
+function streamOf(...chunks: (string | Uint8Array)[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === "string" ? encoder.encode(chunk) : chunk
+        );
+      }
+      controller.close();
+    },
+  });
+}
+
+// Fills the encoding sample so later chunks are decoded as they arrive
+const PADDING = `#EXTM3U\n#${"x".repeat(ENCODING_SAMPLE_SIZE)}\n`;
+
+describe("parsePlaylistStream", () => {
+  test("yields channels before the stream ends", async () => {
+    let sendRest: () => void = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(`${PADDING}#EXTINF:-1,TRT 1\nhttp://a.example/1\n`)
+        );
+        sendRest = () => {
+          controller.enqueue(
+            encoder.encode("#EXTINF:-1,ATV\nhttp://a.example/2\n")
+          );
+          controller.close();
+        };
+      },
+    });
+
+    const iterator = parsePlaylistStream(stream);
+    const first = await iterator.next();
+    expect(first.done).toBe(false);
+    expect(first.value.channels.map((channel) => channel.tvgName)).toEqual([
+      "TRT 1",
+    ]);
+
+    sendRest();
+    let step = await iterator.next();
+    while (!step.done) step = await iterator.next();
+    expect(step.value.totalChannels).toBe(2);
+  });
+
+  test("keeps lines and characters split across chunks intact", async () => {
+    const entry = encoder.encode(
+      '#EXTINF:-1 group-title="Spor",Beşiktaş TV\nhttp://a.example/bjk\n'
+    );
+    // Cut inside the two-byte "ş"
+    const cut = entry.indexOf(0xc5) + 1;
+
+    const result = await parsePlaylist(
+      streamOf(PADDING, entry.subarray(0, cut), entry.subarray(cut))
+    );
+    expect(result.encoding).toBe("utf-8");
+    expect(result.channels).toHaveLength(1);
+    expect(result.channels[0]).toMatchObject({
+      tvgName: "Beşiktaş TV",
+      groupTitle: "Spor",
+      url: "http://a.example/bjk",
+    });
+  });
+
+  test("yields the last channel without a final newline", async () => {
+    const names: string[] = [];
+    const iterator = parsePlaylistStream(
+      streamOf(
+        "#EXTM3U\n#EXTINF:-1,A\nhttp://a.example/1\n#EXTINF:-1,B\n",
+        "http://a.example/2"
+      )
+    );
+    let step = await iterator.next();
+    while (!step.done) {
+      names.push(...step.value.channels.map((channel) => channel.tvgName));
+      step = await iterator.next();
+    }
+
+    expect(names).toEqual(["A", "B"]);
+    expect(step.value.totalChannels).toBe(2);
+    expect(step.value.diagnostics).toEqual([]);
+  });
+
+  test("stops with PlaylistTooLargeError and cancels the source", async () => {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode("#EXTINF:-1,A\nhttp://a.example/\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    await expect(parsePlaylist(stream, { maxBytes: 1000 })).rejects.toThrow(
+      PlaylistTooLargeError
+    );
+    expect(cancelled).toBe(true);
+  });
+});
+
+describe("encoding detection", () => {
+  async function nameOf(bytes: number[], encoding?: "iso-8859-9") {
+    const result = await parsePlaylist(
+      streamOf(
+        "#EXTM3U\n#EXTINF:-1,",
+        new Uint8Array(bytes),
+        "\nhttp://a.example/\n"
+      ),
+      { encoding }
+    );
+    return [result.encoding, result.channels[0].tvgName];
+  }
+
+  test("reads Windows-1254 when 0x80-0x9F bytes appear", async () => {
+    // “Şok” in Windows-1254
+    expect(await nameOf([0x93, 0xde, 0x6f, 0x6b, 0x94])).toEqual([
+      "windows-1254",
+      "“Şok”",
+    ]);
+  });
+
+  test("falls back to ISO-8859-9 for other non-UTF-8 bytes", async () => {
+    expect(await nameOf([0xde, 0x6f, 0x6b])).toEqual(["iso-8859-9", "Şok"]);
+  });
+
+  test("honours an explicit encoding over detection", async () => {
+    // Valid UTF-8 "Ş", read as two Latin-5 characters when forced
+    expect(await nameOf([0xc5, 0x9e], "iso-8859-9")).toEqual([
+      "iso-8859-9",
+      "Å\u009e",
+    ]);
+  });
+
+  test("drops a UTF-8 BOM before the header", async () => {
+    const result = await parsePlaylist(
+      streamOf(
+        new Uint8Array([0xef, 0xbb, 0xbf]),
+        "#EXTM3U\n#EXTINF:-1,A\nhttp://a.example/\n"
+      )
+    );
+    expect(result.diagnostics).toEqual([]);
+    expect(result.channels).toHaveLength(1);
+  });
+});
+
+describe("readNdjson", () => {
+  async function collect(...chunks: (string | Uint8Array)[]) {
+    const records: unknown[] = [];
+    for await (const record of readNdjson(streamOf(...chunks))) {
+      records.push(record);
+    }
+    return records;
+  }
+
+  test("joins records split across chunks", async () => {
+    const bytes = encoder.encode('{"name":"Beşiktaş"}\n{"n":2}\n');
+    expect(await collect(bytes.subarray(0, 12), bytes.subarray(12))).toEqual([
+      { name: "Beşiktaş" },
+      { n: 2 },
+    ]);
+  });
+
+  test("reads a final record without a newline, skips blanks", async () => {
+    expect(await collect('{"n":1}\n\n  \n{"n":2}')).toEqual([
+      { n: 1 },
+      { n: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  StreamingM3UParser,
+  type M3UChannel,
+  type M3UParseResult,
+  type M3UParserOptions,
+} from "@/lib/m3u-parser";
+import {
+  ENCODING_SAMPLE_SIZE,
+  createPlaylistDecoder,
+  resolveEncoding,
+  type EncodingOption,
+  type PlaylistEncoding,
+} from "@/lib/text-encoding";
+
+export interface PlaylistStreamOptions extends M3UParserOptions {
+  encoding?: EncodingOption;
+  /** Abort with PlaylistTooLargeError once more bytes than this arrive */
+  maxBytes?: number;
+}
+
+export type PlaylistStreamResult = M3UParseResult & {
+  encoding: PlaylistEncoding;
+};
+
+export interface PlaylistStreamChunk {
+  /** Channels completed by the latest input chunk */
+  channels: M3UChannel[];
+  /** Raw bytes consumed so far */
+  bytesRead: number;
+}
+
+/**
+ * Any incremental channel source: an M3U byte stream, an Xtream panel, ...
+ */
+export type PlaylistStream = AsyncGenerator<
+  PlaylistStreamChunk,
+  PlaylistStreamResult
+>;
+
+/**
+ * NDJSON records emitted by POST /api/m3u/parse?format=ndjson
+ */
+export type M3UStreamRecord =
+  | { type: "channel"; channel: M3UChannel }
+  | { type: "progress"; bytesRead: number }
+  | ({ type: "summary" } & Omit<PlaylistStreamResult, "channels">)
+  | { type: "error"; error: string; details?: string };
+
+export class PlaylistTooLargeError extends Error {
+  constructor(public maxBytes: number) {
+    super(`Playlist exceeds ${Math.round(maxBytes / (1024 * 1024))}MB`);
+    this.name = "PlaylistTooLargeError";
+  }
+}
+
+/**
+ * Parse a byte stream incrementally. Yields the channels completed by each
+ * incoming chunk (with the bytes read so far) and returns the full result
+ * once the stream ends.
+ * The encoding is decided from the first ENCODING_SAMPLE_SIZE bytes and a
+ * single streaming decoder is used so multi-byte characters split across
+ * chunks survive.
+ */
+export async function* parsePlaylistStream(
+  stream: ReadableStream<Uint8Array>,
+  options: PlaylistStreamOptions = {}
+): PlaylistStream {
+  const parser = new StreamingM3UParser(options);
+  const reader = stream.getReader();
+  const pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let totalBytes = 0;
+  let encoding: PlaylistEncoding | null = null;
+  let decoder: TextDecoder | null = null;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      totalBytes += value.byteLength;
+      if (options.maxBytes && totalBytes > options.maxBytes) {
+        throw new PlaylistTooLargeError(options.maxBytes);
+      }
+
+      let text: string;
+      if (decoder) {
+        text = decoder.decode(value, { stream: true });
+      } else {
+        // Hold bytes back until there is enough to guess the encoding
+        pending.push(value);
+        pendingBytes += value.byteLength;
+        if (pendingBytes < ENCODING_SAMPLE_SIZE) {
+          yield { channels: [], bytesRead: totalBytes };
+          continue;
+        }
+
+        const sample = concatBytes(pending, pendingBytes);
+        encoding = resolveEncoding(options.encoding || "auto", sample);
+        decoder = createPlaylistDecoder(encoding);
+        text = decoder.decode(sample, { stream: true });
+      }
+
+      yield { channels: parser.parse(text), bytesRead: totalBytes };
+    }
+  } catch (error) {
+    // Stop the producer (e.g. an upload) instead of draining it
+    await reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  let text = "";
+  if (!decoder) {
+    // Short playlist: everything is still in the sample buffer
+    const sample = concatBytes(pending, pendingBytes);
+    encoding = resolveEncoding(options.encoding || "auto", sample);
+    decoder = createPlaylistDecoder(encoding);
+    text = decoder.decode(sample, { stream: true });
+  }
+  // The last line only completes a channel once the input is known to end
+  const channels = [
+    ...parser.parse(text + decoder.decode()),
+    ...parser.finalize(),
+  ];
+  if (channels.length > 0) yield { channels, bytesRead: totalBytes };
+
+  return { ...parser.toResult(), encoding: encoding || "utf-8" };
+}
+
+/**
+ * Run a playlist stream to completion
+ */
+export async function collectPlaylistStream(
+  iterator: PlaylistStream
+): Promise<PlaylistStreamResult> {
+  while (true) {
+    const step = await iterator.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * Run parsePlaylistStream to completion
+ */
+export function parsePlaylist(
+  stream: ReadableStream<Uint8Array>,
+  options: PlaylistStreamOptions = {}
+): Promise<PlaylistStreamResult> {
+  return collectPlaylistStream(parsePlaylistStream(stream, options));
+}
+
+/**
+ * Read newline-delimited JSON records from a response body
+ */
+export async function* readNdjson<T>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop() || "";
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function concatBytes(
+  chunks: Uint8Array[],
+  length: number
+): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Read the first bytes of a stream and hand back an equivalent stream that
+ * still starts with them
+ */
+export async function peekStream(
+  input: ReadableStream<Uint8Array>,
+  size: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = input.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (length < size) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+
+  return { head: concatBytes(chunks, length).subarray(0, size), stream };
+}
+
+/**
+ * Read a whole stream into memory, failing with PlaylistTooLargeError once
+ * it grows past `maxBytes`
+ */
+export async function readAll(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes?: number
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (maxBytes !== undefined && length > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new PlaylistTooLargeError(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks, length);
+}
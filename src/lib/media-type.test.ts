@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+  extensionFromContentType,
+  getMediaExtension,
+  sniffMediaExtension,
+  withMediaExtension,
+} from "./media-type";
+
+const encoder = new TextEncoder();
+
+function bytes(...parts: (string | number[])[]): Uint8Array {
+  return new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === "string" ? [...encoder.encode(part)] : part
+    )
+  );
+}
+
+// Transport stream packets with the 0x47 sync byte where each one starts
+function tsPackets(count: number): Uint8Array {
+  const data = new Uint8Array(188 * count);
+  for (let i = 0; i < data.length; i += 188) data[i] = 0x47;
+  return data;
+}
+
+const EBML = [0x1a, 0x45, 0xdf, 0xa3];
+
+describe("sniffMediaExtension", () => {
+  test("tells WebM from Matroska by the EBML DocType", () => {
+    expect(sniffMediaExtension(bytes(EBML, [0x42, 0x82, 0x84], "webm"))).toBe(
+      "webm"
+    );
+    expect(
+      sniffMediaExtension(bytes(EBML, [0x42, 0x82, 0x88], "matroska"))
+    ).toBe("mkv");
+  });
+
+  test("tells QuickTime from MP4 by the ftyp brand", () => {
+    expect(sniffMediaExtension(bytes([0, 0, 0, 0x20], "ftypisom"))).toBe("mp4");
+    expect(sniffMediaExtension(bytes([0, 0, 0, 0x14], "ftypqt  "))).toBe("mov");
+  });
+
+  test("reads the FLV and AVI signatures", () => {
+    expect(sniffMediaExtension(bytes("FLV", [0x01, 0x05]))).toBe("flv");
+    expect(sniffMediaExtension(bytes("RIFF", [0, 0, 0, 0], "AVI LIST"))).toBe(
+      "avi"
+    );
+    expect(sniffMediaExtension(bytes("RIFF", [0, 0, 0, 0], "WAVEfmt "))).toBe(
+      null
+    );
+  });
+
+  test("needs a sync byte on every packet for a transport stream", () => {
+    expect(sniffMediaExtension(tsPackets(5))).toBe("ts");
+
+    const broken = tsPackets(5);
+    broken[188 * 3] = 0;
+    expect(sniffMediaExtension(broken)).toBe(null);
+    // One sync byte alone is too little to go on
+    expect(sniffMediaExtension(tsPackets(1).subarray(0, 100))).toBe(null);
+  });
+
+  test("tells HLS from plain M3U playlists, past a BOM and blank lines", () => {
+    expect(
+      sniffMediaExtension(bytes("\uFEFF\n#EXTM3U\n#EXT-X-VERSION:3\n"))
+    ).toBe("m3u8");
+    expect(
+      sniffMediaExtension(bytes("#EXTM3U\n#EXTINF:-1,A\nhttp://a/\n"))
+    ).toBe("m3u");
+  });
+
+  test("gives up on anything else", () => {
+    expect(sniffMediaExtension(bytes("<!DOCTYPE html><html>"))).toBe(null);
+    expect(sniffMediaExtension(new Uint8Array())).toBe(null);
+  });
+});
+
+describe("extensionFromContentType", () => {
+  test("ignores parameters, case and generic binary types", () => {
+    expect(extensionFromContentType("Video/MP2T; charset=binary")).toBe("ts");
+    expect(extensionFromContentType("application/octet-stream")).toBe(null);
+    expect(extensionFromContentType("text/html")).toBe(null);
+    expect(extensionFromContentType(null)).toBe(null);
+  });
+});
+
+describe("getMediaExtension", () => {
+  test("reads known extensions from URL paths and filenames", () => {
+    expect(getMediaExtension("http://a.example/film.MKV?token=x.mp4")).toBe(
+      "mkv"
+    );
+    expect(getMediaExtension("film.avi")).toBe("avi");
+    expect(getMediaExtension("http://a.example/live.php")).toBe(null);
+  });
+
+  test("swaps a known extension and appends one otherwise", () => {
+    expect(withMediaExtension("film.mp4", "mkv")).toBe("film.mkv");
+    expect(withMediaExtension("film.2024", "ts")).toBe("film.2024.ts");
+  });
+});
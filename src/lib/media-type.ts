@@ -0,0 +1,136 @@
+/**
+ * File types the download proxy can tell apart, with the MIME type sent
+ * when the upstream server gives none
+ */
+export const MEDIA_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  ts: "video/mp2t",
+  flv: "video/x-flv",
+  avi: "video/x-msvideo",
+  wmv: "video/x-ms-wmv",
+  m3u8: "application/vnd.apple.mpegurl",
+  m3u: "audio/x-mpegurl",
+};
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/x-m4v": "m4v",
+  "video/quicktime": "mov",
+  "video/x-matroska": "mkv",
+  "video/mkv": "mkv",
+  "video/webm": "webm",
+  "video/mp2t": "ts",
+  "video/x-flv": "flv",
+  "video/x-msvideo": "avi",
+  "video/avi": "avi",
+  "video/msvideo": "avi",
+  "video/x-ms-wmv": "wmv",
+  "application/vnd.apple.mpegurl": "m3u8",
+  "application/x-mpegurl": "m3u8",
+  "audio/mpegurl": "m3u8",
+  "audio/x-mpegurl": "m3u8",
+};
+
+// Content types that say nothing about the file
+const GENERIC_CONTENT_TYPES = new Set([
+  "application/octet-stream",
+  "binary/octet-stream",
+  "application/force-download",
+  "application/download",
+  "text/plain",
+]);
+
+/** Bytes sniffMediaExtension needs to recognize every type */
+export const MEDIA_SNIFF_BYTES = 1024;
+
+const TS_PACKET_SIZE = 188;
+
+/**
+ * Recognize a file from its first bytes: Matroska/WebM, MP4/MOV, MPEG-TS,
+ * FLV, AVI and HLS or M3U playlists
+ */
+export function sniffMediaExtension(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+
+  // EBML header; the DocType tells WebM from Matroska
+  if (
+    bytes[0] === 0x1a &&
+    bytes[1] === 0x45 &&
+    bytes[2] === 0xdf &&
+    bytes[3] === 0xa3
+  ) {
+    return ascii(4, 64).includes("webm") ? "webm" : "mkv";
+  }
+
+  if (ascii(4, 8) === "ftyp") {
+    return ascii(8, 12) === "qt  " ? "mov" : "mp4";
+  }
+
+  if (ascii(0, 3) === "FLV" && bytes[3] === 0x01) return "flv";
+
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "AVI ") return "avi";
+
+  // A sync byte at the start of every packet that was received
+  if (bytes.length >= TS_PACKET_SIZE && bytes[0] === 0x47) {
+    let synced = true;
+    for (let i = TS_PACKET_SIZE; i < bytes.length; i += TS_PACKET_SIZE) {
+      if (bytes[i] !== 0x47) synced = false;
+    }
+    if (synced) return "ts";
+  }
+
+  const text = new TextDecoder()
+    .decode(bytes.subarray(0, MEDIA_SNIFF_BYTES))
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  if (text.startsWith("#EXTM3U")) {
+    return text.includes("#EXT-X-") ? "m3u8" : "m3u";
+  }
+
+  return null;
+}
+
+/**
+ * Extension for a Content-Type header, ignoring generic binary types
+ */
+export function extensionFromContentType(
+  contentType: string | null
+): string | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (!type || GENERIC_CONTENT_TYPES.has(type)) return null;
+  return CONTENT_TYPE_EXTENSIONS[type] ?? null;
+}
+
+export function isGenericContentType(contentType: string | null): boolean {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  return !type || GENERIC_CONTENT_TYPES.has(type);
+}
+
+/**
+ * Known media extension of a filename or the path of a URL
+ */
+export function getMediaExtension(name: string): string | null {
+  let path = name;
+  try {
+    path = new URL(name).pathname;
+  } catch {
+    // Not a URL, a plain filename
+  }
+  const match = /\.([a-z0-9]{2,4})$/i.exec(path);
+  const extension = match?.[1].toLowerCase();
+  return extension && extension in MEDIA_TYPES ? extension : null;
+}
+
+/**
+ * Replace a known media extension, or append one to a name without it
+ */
+export function withMediaExtension(name: string, extension: string): string {
+  const current = getMediaExtension(name);
+  const base = current ? name.slice(0, -(current.length + 1)) : name;
+  return `${base}.${extension}`;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { parseM3U, type M3UChannel } from "@/lib/m3u-parser";
+import {
+  generateExport,
+  toByteStream,
+  type ExportFormat,
+} from "./playlist-export";
+
+async function exportText(
+  format: ExportFormat,
+  channels: M3UChannel[],
+  title?: string
+): Promise<string> {
+  const bytes = await new Response(
+    toByteStream(generateExport(format, channels, { title }))
+  ).arrayBuffer();
+  // Keep the BOM the CSV export starts with
+  return new TextDecoder("utf-8", { ignoreBOM: true }).decode(bytes);
+}
+
+function channel(fields: Partial<M3UChannel>): M3UChannel {
+  return {
+    id: "1",
+    tvgName: "Kanal",
+    url: "http://a.example/1.ts",
+    attributes: {},
+    scheme: "http",
+    ...fields,
+  };
+}
+
+describe("M3U export", () => {
+  test("parses back to the same channels", async () => {
+    const channels = [
+      channel({
+        tvgName: "Spor, HD",
+        tvgId: "spor.tr",
+        groupTitle: "Spor",
+        attributes: { catchup: "shift", "catchup-days": "7" },
+        vlcOptions: { "http-user-agent": "Player/1.0" },
+        httpHeaders: { referer: "http://panel.example/" },
+      }),
+      channel({
+        tvgName: "Film",
+        url: "http://a.example/film.mp4",
+        groupTitle: "Sinema",
+      }),
+    ];
+    const parsed = parseM3U(await exportText("m3u", channels)).channels;
+
+    expect(parsed.map((c) => [c.tvgName, c.url, c.groupTitle])).toEqual([
+      ["Spor, HD", "http://a.example/1.ts", "Spor"],
+      ["Film", "http://a.example/film.mp4", "Sinema"],
+    ]);
+    expect(parsed[0].tvgId).toBe("spor.tr");
+    expect(parsed[0].attributes.catchup).toBe("shift");
+    expect(parsed[0].vlcOptions).toEqual({ "http-user-agent": "Player/1.0" });
+    expect(parsed[0].httpHeaders).toEqual({
+      referer: "http://panel.example/",
+    });
+  });
+
+  test("keeps line breaks and quotes from splitting entries", async () => {
+    const text = await exportText("m3u", [
+      channel({
+        tvgName: "Bir\nİki",
+        groupTitle: 'Grup "A"',
+        url: "http://a.example/1.ts\n#EXTINF:-1,Sahte\nhttp://evil.example/",
+      }),
+    ]);
+    const parsed = parseM3U(text).channels;
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].tvgName).toBe("Birİki");
+    expect(parsed[0].groupTitle).toBe("Grup 'A'");
+    expect(parsed[0].url).toBe(
+      "http://a.example/1.ts#EXTINF:-1,Sahtehttp://evil.example/"
+    );
+  });
+});
+
+describe("CSV export", () => {
+  async function rows(channels: M3UChannel[]): Promise<string[]> {
+    const text = await exportText("csv", channels);
+    expect(text.startsWith("\uFEFFname,url,group,")).toBe(true);
+    return text.slice(1).split("\r\n").slice(1, -1);
+  }
+
+  test("quotes commas and quotes and keeps one row per channel", async () => {
+    expect(
+      await rows([
+        channel({ tvgName: 'Kanal "1", HD', groupTitle: "Bir\r\nİki" }),
+      ])
+    ).toEqual([
+      '"Kanal ""1"", HD",http://a.example/1.ts,Birİki,,,,,,-1,',
+    ]);
+  });
+
+  test("neutralizes values that spreadsheets evaluate", async () => {
+    const names = ["=1+2", "+1", "-2+3+cmd|' /C calc'!A0", "@SUM(A1)", "\tx"];
+    const result = await rows(names.map((tvgName) => channel({ tvgName })));
+    expect(result.map((row) => row.split(",")[0])).toEqual([
+      "'=1+2",
+      "'+1",
+      "'-2+3+cmd|' /C calc'!A0",
+      "'@SUM(A1)",
+      "'\tx",
+    ]);
+  });
+
+  test("leaves negative numbers alone", async () => {
+    const [row] = await rows([channel({ tvgName: "-5", duration: -1 })]);
+    expect(row.split(",")[0]).toBe("-5");
+    expect(row.split(",")[8]).toBe("-1");
+  });
+});
+
+describe("XSPF export", () => {
+  test("escapes markup and drops control characters", async () => {
+    const text = await exportText(
+      "xspf",
+      [
+        channel({
+          tvgName: "<b>Tom & Jerry</b>\u0001",
+          groupTitle: `"Çizgi" 'Film'`,
+          url: "http://a.example/1.ts?a=1&b=2",
+          duration: 90.5,
+        }),
+      ],
+      "Liste & Favoriler"
+    );
+
+    expect(text).toContain("<title>Liste &amp; Favoriler</title>");
+    expect(text).toContain(
+      "<location>http://a.example/1.ts?a=1&amp;b=2</location>"
+    );
+    expect(text).toContain(
+      "<title>&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;</title>"
+    );
+    expect(text).toContain(
+      "<album>&quot;Çizgi&quot; &apos;Film&apos;</album>"
+    );
+    expect(text).toContain("<duration>90500</duration>");
+    expect(text).not.toContain("\u0001");
+  });
+});
@@ -0,0 +1,567 @@
+import {
+  DEFAULT_GROUP_TITLE,
+  INHERITED_PLAYLIST_ATTRIBUTES,
+  findAttributeKey,
+  getAttribute,
+  type M3UChannel,
+} from "@/lib/m3u-parser";
+import { concatBytes } from "@/lib/m3u-stream";
+import { getStreamHeaders } from "@/lib/stream-proxy";
+
+export const EXPORT_FORMATS = [
+  "m3u",
+  "json",
+  "csv",
+  "xspf",
+  "pls",
+  "enigma2",
+  "strm",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportOptions {
+  /** Playlist title used by formats that carry one (XSPF, Enigma2) */
+  title?: string;
+  /** #EXTM3U header attributes of the source playlist */
+  playlistAttributes?: Record<string, string>;
+}
+
+interface ExportFormatDetails {
+  label: string;
+  contentType: string;
+  /** Download name for a base name from generateFilename */
+  filename: (base: string) => string;
+  /** Most channels the format can hold, if it has a limit */
+  maxChannels?: number;
+}
+
+// Zip archives without the zip64 extension hold at most this many entries
+const MAX_ZIP_ENTRIES = 0xffff;
+
+export const EXPORT_FORMAT_DETAILS: Record<ExportFormat, ExportFormatDetails> =
+  {
+    m3u: {
+      label: "M3U",
+      contentType: "audio/x-mpegurl; charset=utf-8",
+      filename: (base) => `${base}.m3u`,
+    },
+    json: {
+      label: "JSON",
+      contentType: "application/json; charset=utf-8",
+      filename: (base) => `${base}.json`,
+    },
+    csv: {
+      label: "CSV",
+      contentType: "text/csv; charset=utf-8",
+      filename: (base) => `${base}.csv`,
+    },
+    xspf: {
+      label: "XSPF (VLC)",
+      contentType: "application/xspf+xml; charset=utf-8",
+      filename: (base) => `${base}.xspf`,
+    },
+    pls: {
+      label: "PLS",
+      contentType: "audio/x-scpls; charset=utf-8",
+      filename: (base) => `${base}.pls`,
+    },
+    enigma2: {
+      label: "Enigma2 userbouquet",
+      contentType: "text/plain; charset=utf-8",
+      // Enigma2 only picks up files named userbouquet.<name>.tv
+      filename: (base) =>
+        `userbouquet.${base.toLowerCase().replace(/[^a-z0-9_-]+/g, "_")}.tv`,
+    },
+    strm: {
+      label: "Kodi .strm (zip)",
+      contentType: "application/zip",
+      filename: (base) => `${base}.zip`,
+      // One .strm file per channel
+      maxChannels: MAX_ZIP_ENTRIES,
+    },
+  };
+
+export type ChannelSource = Iterable<M3UChannel> | AsyncIterable<M3UChannel>;
+
+// Output is handed to the response in pieces of about this size
+const EXPORT_CHUNK_SIZE = 64 * 1024;
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Serialize channels in the given format, piece by piece, pulling channels
+ * from the source only as output is consumed
+ */
+export function generateExport(
+  format: ExportFormat,
+  channels: ChannelSource,
+  options: ExportOptions = {}
+): AsyncIterable<string | Uint8Array> {
+  switch (format) {
+    case "m3u":
+      return generateM3U(channels, options.playlistAttributes);
+    case "json":
+      return generateJson(channels, options.playlistAttributes);
+    case "csv":
+      return generateCsv(channels);
+    case "xspf":
+      return generateXspf(channels, options.title);
+    case "pls":
+      return generatePls(channels);
+    case "enigma2":
+      return generateEnigma2(channels, options.title);
+    case "strm":
+      return generateStrmZip(channels);
+  }
+}
+
+async function* generateM3U(
+  channels: ChannelSource,
+  playlistAttributes: Record<string, string> = {}
+): AsyncGenerator<string> {
+  const header = formatAttributes(playlistAttributes);
+  yield header.length ? `#EXTM3U ${header.join(" ")}\n` : "#EXTM3U\n";
+
+  for await (const channel of channels) {
+    const attributes = getChannelAttributes(channel);
+    // Values inherited from the header are written once, in the header
+    for (const key of INHERITED_PLAYLIST_ATTRIBUTES) {
+      const inherited = getAttribute(playlistAttributes, key);
+      const channelKey = findAttributeKey(attributes, key);
+      if (inherited && channelKey && attributes[channelKey] === inherited) {
+        delete attributes[channelKey];
+      }
+    }
+    const info = formatAttributes(attributes);
+
+    let content = `#EXTINF:${getDuration(channel)} ${info.join(
+      " "
+    )},${escapeValue(channel.tvgName)}\n`;
+    content += generateDirectives(channel);
+    // A line break in the URL would start a new entry
+    content += `${escapeDirective(channel.url)}\n`;
+    yield content;
+  }
+}
+
+/**
+ * Byte stream of an export that only generates more when the reader asks
+ * for it, so memory does not grow with the number of channels
+ */
+export function toByteStream(
+  parts: AsyncIterable<string | Uint8Array>
+): ReadableStream<Uint8Array> {
+  const iterator = parts[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const pending: Uint8Array[] = [];
+      let size = 0;
+
+      while (size < EXPORT_CHUNK_SIZE) {
+        const step = await iterator.next();
+        if (step.done) break;
+        const bytes =
+          typeof step.value === "string"
+            ? encoder.encode(step.value)
+            : step.value;
+        pending.push(bytes);
+        size += bytes.byteLength;
+      }
+
+      if (size > 0) controller.enqueue(concatBytes(pending, size));
+      if (size < EXPORT_CHUNK_SIZE) controller.close();
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Keep VOD runtimes; anything unusable from the client becomes -1
+ */
+function getDuration(channel: M3UChannel): number {
+  return typeof channel.duration === "number" &&
+    Number.isFinite(channel.duration)
+    ? channel.duration
+    : -1;
+}
+
+/**
+ * Merge the original #EXTINF attributes with the channel's well-known fields,
+ * keeping the source order and letting the fields win
+ */
+function getChannelAttributes(channel: M3UChannel): Record<string, string> {
+  const attributes: Record<string, string> = { ...(channel.attributes || {}) };
+  const known: [string, string | undefined][] = [
+    ["tvg-name", channel.tvgNameAttribute || channel.tvgName],
+    ["tvg-logo", channel.tvgLogo],
+    ["tvg-id", channel.tvgId],
+    ["tvg-country", channel.tvgCountry],
+    ["tvg-language", channel.tvgLanguage],
+    ["group-title", channel.groupTitle],
+  ];
+
+  for (const [key, value] of known) {
+    // Overwrite the source spelling of the key rather than adding a second one
+    if (value) attributes[findAttributeKey(attributes, key) ?? key] = value;
+  }
+
+  return attributes;
+}
+
+/**
+ * Format key="value" pairs; keys come from client input, so anything that
+ * would break the line is dropped
+ */
+function formatAttributes(attributes: Record<string, string>): string[] {
+  return Object.entries(attributes)
+    .filter(([key, value]) => /^[\w.:-]+$/.test(key) && value != null)
+    .map(([key, value]) => `${key}="${escapeAttribute(String(value))}"`);
+}
+
+/**
+ * Generate the #EXTVLCOPT, #KODIPROP and #EXTHTTP lines of a channel
+ */
+function generateDirectives(channel: M3UChannel): string {
+  let content = "";
+
+  for (const [key, value] of Object.entries(channel.vlcOptions || {})) {
+    content += `#EXTVLCOPT:${escapeValue(key)}=${escapeDirective(value)}\n`;
+  }
+  for (const [key, value] of Object.entries(channel.kodiProps || {})) {
+    content += `#KODIPROP:${escapeValue(key)}=${escapeDirective(value)}\n`;
+  }
+  if (channel.httpHeaders && Object.keys(channel.httpHeaders).length > 0) {
+    content += `#EXTHTTP:${JSON.stringify(channel.httpHeaders)}\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Escape directive values (line breaks only, quotes are significant)
+ */
+function escapeDirective(value: string): string {
+  return (value || "").replace(/[\r\n]/g, "");
+}
+
+/**
+ * Escape attribute values for M3U format
+ */
+function escapeAttribute(value: string): string {
+  if (!value) return "";
+  return value
+    .replace(/"/g, "'") // Replace double quotes with single quotes
+    .replace(/[\r\n]/g, ""); // Remove line breaks
+}
+
+/**
+ * Escape display name values
+ */
+function escapeValue(value: string): string {
+  if (!value) return "Unknown";
+  return value.replace(/[\r\n]/g, "").trim();
+}
+
+/**
+ * { "playlistAttributes": {...}, "channels": [...] }
+ */
+async function* generateJson(
+  channels: ChannelSource,
+  playlistAttributes: Record<string, string> = {}
+): AsyncGenerator<string> {
+  yield `{"playlistAttributes":${JSON.stringify(playlistAttributes)},"channels":[`;
+  let first = true;
+  for await (const channel of channels) {
+    yield `${first ? "" : ","}\n${JSON.stringify(channel)}`;
+    first = false;
+  }
+  yield "\n]}\n";
+}
+
+const CSV_COLUMNS: [string, (channel: M3UChannel) => string | undefined][] = [
+  ["name", (channel) => channel.tvgName],
+  ["url", (channel) => channel.url],
+  ["group", (channel) => channel.groupTitle],
+  ["tvg-id", (channel) => channel.tvgId],
+  ["tvg-name", (channel) => channel.tvgNameAttribute],
+  ["tvg-logo", (channel) => channel.tvgLogo],
+  ["tvg-country", (channel) => channel.tvgCountry],
+  ["tvg-language", (channel) => channel.tvgLanguage],
+  ["duration", (channel) => String(getDuration(channel))],
+  ["type", (channel) => channel.contentType],
+];
+
+async function* generateCsv(
+  channels: ChannelSource
+): AsyncGenerator<string> {
+  // BOM so spreadsheet apps read Turkish characters as UTF-8
+  yield `\uFEFF${CSV_COLUMNS.map(([name]) => name).join(",")}\r\n`;
+  for await (const channel of channels) {
+    yield `${CSV_COLUMNS.map(([, value]) => escapeCsv(value(channel))).join(
+      ","
+    )}\r\n`;
+  }
+}
+
+function escapeCsv(value: string | undefined): string {
+  if (!value) return "";
+  // One row per channel, whatever the client sent
+  const line = value.replace(/[\r\n]/g, "");
+  // Keep spreadsheet apps from evaluating names as formulas; plain numbers
+  // such as the -1 duration are left alone
+  const safe =
+    /^[=+\-@\t\r]/.test(line) && !/^-?\d+(\.\d+)?$/.test(line)
+      ? `'${line}`
+      : line;
+  return /[",]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+async function* generateXspf(
+  channels: ChannelSource,
+  title?: string
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<playlist version="1" xmlns="http://xspf.org/ns/0/">\n';
+  if (title) yield `  <title>${escapeXml(title)}</title>\n`;
+  yield "  <trackList>\n";
+
+  for await (const channel of channels) {
+    let track = "    <track>\n";
+    track += `      <location>${escapeXml(
+      escapeDirective(channel.url)
+    )}</location>\n`;
+    track += `      <title>${escapeXml(escapeValue(channel.tvgName))}</title>\n`;
+    if (channel.groupTitle) {
+      track += `      <album>${escapeXml(channel.groupTitle)}</album>\n`;
+    }
+    if (channel.tvgLogo) {
+      track += `      <image>${escapeXml(
+        escapeDirective(channel.tvgLogo)
+      )}</image>\n`;
+    }
+    if (getDuration(channel) > 0) {
+      track += `      <duration>${Math.round(
+        getDuration(channel) * 1000
+      )}</duration>\n`;
+    }
+    yield `${track}    </track>\n`;
+  }
+
+  yield "  </trackList>\n</playlist>\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+async function* generatePls(
+  channels: ChannelSource
+): AsyncGenerator<string> {
+  yield "[playlist]\n";
+  let count = 0;
+  for await (const channel of channels) {
+    count++;
+    const duration = getDuration(channel);
+    yield `File${count}=${escapeDirective(channel.url)}\n` +
+      `Title${count}=${escapeValue(channel.tvgName)}\n` +
+      `Length${count}=${duration > 0 ? Math.round(duration) : -1}\n`;
+  }
+  yield `NumberOfEntries=${count}\nVersion=2\n`;
+}
+
+/**
+ * Enigma2 bouquet with IPTV (4097) services and a marker per group
+ */
+async function* generateEnigma2(
+  channels: ChannelSource,
+  title = "IPTV"
+): AsyncGenerator<string> {
+  yield `#NAME ${escapeValue(title)}\n`;
+  let group: string | null = null;
+  let markers = 0;
+
+  for await (const channel of channels) {
+    const channelGroup = channel.groupTitle || DEFAULT_GROUP_TITLE;
+    let content = "";
+    if (channelGroup !== group) {
+      group = channelGroup;
+      content += `#SERVICE 1:64:${++markers}:0:0:0:0:0:0:0::${escapeValue(
+        group
+      )}\n#DESCRIPTION ${escapeValue(group)}\n`;
+    }
+
+    const name = escapeValue(channel.tvgName);
+    // ":" separates service reference fields, so it must be encoded
+    const url = escapeDirective(channel.url).replace(/:/g, "%3a");
+    content += `#SERVICE 4097:0:1:0:0:0:0:0:0:0:${url}:${name}\n`;
+    content += `#DESCRIPTION ${name}\n`;
+    yield content;
+  }
+}
+
+/**
+ * Zip of Group/Channel.strm files for Kodi; each file holds the stream URL,
+ * with request headers in Kodi's "url|Header=value" form
+ */
+async function* generateStrmZip(
+  channels: ChannelSource
+): AsyncGenerator<Uint8Array> {
+  const zip = new ZipWriter();
+  const used = new Set<string>();
+
+  for await (const channel of channels) {
+    const folder = toPathSegment(channel.groupTitle || DEFAULT_GROUP_TITLE);
+    const base = `${folder}/${toPathSegment(channel.tvgName)}`;
+    let path = `${base}.strm`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) {
+      path = `${base} (${n}).strm`;
+    }
+    used.add(path.toLowerCase());
+
+    const headers = Object.entries(getStreamHeaders(channel))
+      .map(
+        ([name, value]) =>
+          `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+      )
+      .join("&");
+    const url = escapeDirective(channel.url);
+    yield zip.add(path, `${headers ? `${url}|${headers}` : url}\n`);
+  }
+
+  yield zip.finish();
+}
+
+function toPathSegment(name: string): string {
+  return (
+    (name || "")
+      .replace(/[\u0000-\u001F<>:"/\\|?*]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^\.+|[. ]+$/g, "")
+      .slice(0, 100) || "Unknown"
+  );
+}
+
+/**
+ * Minimal writer for uncompressed zip archives. Entries are emitted as they
+ * are added; the central directory comes with finish().
+ */
+class ZipWriter {
+  private encoder = new TextEncoder();
+  private central: Uint8Array[] = [];
+  private offset = 0;
+  private count = 0;
+  private time: number;
+  private date: number;
+
+  constructor(now = new Date()) {
+    this.time =
+      (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    this.date =
+      ((now.getFullYear() - 1980) << 9) |
+      ((now.getMonth() + 1) << 5) |
+      now.getDate();
+  }
+
+  add(path: string, content: string): Uint8Array {
+    if (++this.count > MAX_ZIP_ENTRIES) {
+      throw new ExportError(
+        `Zip arşivi en fazla ${MAX_ZIP_ENTRIES} dosya içerebilir`
+      );
+    }
+
+    const name = this.encoder.encode(path);
+    const data = this.encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const view = new DataView(local.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true); // version needed
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, this.time, true);
+    view.setUint16(12, this.date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true); // version made by
+    entryView.setUint16(6, 20, true);
+    entryView.setUint16(8, 0x0800, true);
+    entryView.setUint16(10, 0, true);
+    entryView.setUint16(12, this.time, true);
+    entryView.setUint16(14, this.date, true);
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, data.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, this.offset, true);
+    entry.set(name, 46);
+    this.central.push(entry);
+
+    this.offset += local.length;
+    return local;
+  }
+
+  finish(): Uint8Array {
+    const size = this.central.reduce((sum, entry) => sum + entry.length, 0);
+    const result = new Uint8Array(size + 22);
+    let position = 0;
+    for (const entry of this.central) {
+      result.set(entry, position);
+      position += entry.length;
+    }
+
+    const view = new DataView(result.buffer);
+    view.setUint32(position, 0x06054b50, true);
+    view.setUint16(position + 8, this.central.length, true);
+    view.setUint16(position + 10, this.central.length, true);
+    view.setUint32(position + 12, size, true);
+    view.setUint32(position + 16, this.offset, true);
+    return result;
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
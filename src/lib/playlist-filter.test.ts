@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import type { M3UChannel } from "@/lib/m3u-parser";
+import {
+  PlaylistFilterError,
+  matchesNamePattern,
+  matchesPlaylistFilter,
+  parsePlaylistFilter,
+} from "./playlist-filter";
+
+function channel(fields: Partial<M3UChannel>): M3UChannel {
+  return {
+    id: "1",
+    tvgName: "Kanal",
+    url: "http://a.example/1.ts",
+    ...fields,
+  } as M3UChannel;
+}
+
+function filter(query: string) {
+  return parsePlaylistFilter(new URLSearchParams(query));
+}
+
+describe("matchesNamePattern", () => {
+  test("matches a substring ignoring case", () => {
+    expect(matchesNamePattern("TRT 1 HD", "trt")).toBe(true);
+    expect(matchesNamePattern("TRT 1 HD", "atv")).toBe(false);
+  });
+
+  test("supports * and ? wildcards", () => {
+    expect(matchesNamePattern("TRT Spor HD", "trt*hd")).toBe(true);
+    expect(matchesNamePattern("TRT 1", "trt ?")).toBe(true);
+    expect(matchesNamePattern("TRT", "trt ?")).toBe(false);
+  });
+
+  test("treats regular expression syntax literally", () => {
+    expect(matchesNamePattern("Spor (HD)", "(hd)")).toBe(true);
+    expect(matchesNamePattern("Spor HD", "spor|haber")).toBe(false);
+    expect(matchesNamePattern("Spor HD", "^spor")).toBe(false);
+  });
+
+  test("stays fast on patterns with many stars", () => {
+    const started = performance.now();
+    expect(matchesNamePattern("a".repeat(5000), "*a".repeat(99) + "b")).toBe(
+      false
+    );
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("parsePlaylistFilter", () => {
+  test("rejects long patterns and unknown types", () => {
+    expect(() => filter(`name=${"a".repeat(201)}`)).toThrow(
+      PlaylistFilterError
+    );
+    expect(() => filter("type=radio")).toThrow(PlaylistFilterError);
+  });
+
+  test("combines include and exclude filters", () => {
+    const spor = filter(
+      "group=spor&group=Haber&country=TR&excludeName=*yedek*"
+    );
+    expect(
+      matchesPlaylistFilter(
+        channel({ groupTitle: "Spor", tvgCountry: "DE;TR" }),
+        spor
+      )
+    ).toBe(true);
+    expect(
+      matchesPlaylistFilter(
+        channel({ groupTitle: "Spor", tvgCountry: "DE" }),
+        spor
+      )
+    ).toBe(false);
+    expect(
+      matchesPlaylistFilter(
+        channel({
+          tvgName: "Spor Yedek",
+          groupTitle: "Spor",
+          tvgCountry: "TR",
+        }),
+        spor
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  DEFAULT_GROUP_TITLE,
+  matchesContentType,
+  type ContentType,
+  type M3UChannel,
+} from "@/lib/m3u-parser";
+import type { ChannelSource } from "@/lib/playlist-export";
+
+/**
+ * Channel selection for GET /api/m3u/filtered. Empty include lists match
+ * everything; every value comparison ignores case. Name patterns are
+ * wildcard patterns (see matchesNamePattern), kept in lower case.
+ */
+export interface PlaylistFilter {
+  groups: string[];
+  countries: string[];
+  languages: string[];
+  contentTypes: ContentType[];
+  name?: string;
+  excludeGroups: string[];
+  excludeCountries: string[];
+  excludeLanguages: string[];
+  excludeName?: string;
+}
+
+export class PlaylistFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlaylistFilterError";
+  }
+}
+
+// Patterns come from URLs; keep them short enough to stay cheap
+const MAX_PATTERN_LENGTH = 200;
+
+const CONTENT_TYPES: ContentType[] = ["live", "vod", "series"];
+
+/**
+ * Read a filter from query parameters. Every list parameter can be repeated
+ * (group=Spor&group=Haber) to match any of its values.
+ */
+export function parsePlaylistFilter(params: URLSearchParams): PlaylistFilter {
+  const list = (key: string) =>
+    params
+      .getAll(key)
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean);
+
+  const contentTypes = list("type");
+  const unknownType = contentTypes.find(
+    (type) => !CONTENT_TYPES.includes(type as ContentType)
+  );
+  if (unknownType) {
+    throw new PlaylistFilterError(`Bilinmeyen içerik türü: ${unknownType}`);
+  }
+
+  return {
+    groups: list("group"),
+    countries: list("country"),
+    languages: list("language"),
+    contentTypes: contentTypes as ContentType[],
+    name: parsePattern(params.get("name")),
+    excludeGroups: list("excludeGroup"),
+    excludeCountries: list("excludeCountry"),
+    excludeLanguages: list("excludeLanguage"),
+    excludeName: parsePattern(params.get("excludeName")),
+  };
+}
+
+function parsePattern(pattern: string | null): string | undefined {
+  const trimmed = pattern?.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length > MAX_PATTERN_LENGTH) {
+    throw new PlaylistFilterError("Arama deseni çok uzun");
+  }
+  return trimmed.toLowerCase();
+}
+
+/**
+ * Whether a name contains the pattern, where `*` stands for any run of
+ * characters and `?` for one. Patterns come from URLs, so this is a plain
+ * wildcard scan that never backtracks more than one star, rather than a
+ * regular expression that could take exponential time.
+ */
+export function matchesNamePattern(name: string, pattern: string): boolean {
+  const text = (name || "").toLowerCase();
+  const glob = `*${pattern}*`;
+  let t = 0;
+  let p = 0;
+  let star = -1;
+  let mark = 0;
+
+  while (t < text.length) {
+    if (p < glob.length && (glob[p] === "?" || glob[p] === text[t])) {
+      t++;
+      p++;
+    } else if (p < glob.length && glob[p] === "*") {
+      star = p++;
+      mark = t;
+    } else if (star !== -1) {
+      // Let the last star take one more character and retry from there
+      p = star + 1;
+      t = ++mark;
+    } else {
+      return false;
+    }
+  }
+
+  while (glob[p] === "*") p++;
+  return p === glob.length;
+}
+
+export function matchesPlaylistFilter(
+  channel: M3UChannel,
+  filter: PlaylistFilter
+): boolean {
+  const group = (channel.groupTitle || DEFAULT_GROUP_TITLE).toLowerCase();
+  const countries = splitValues(channel.tvgCountry);
+  const languages = splitValues(channel.tvgLanguage);
+
+  if (filter.groups.length && !filter.groups.includes(group)) return false;
+  if (
+    filter.countries.length &&
+    !countries.some((country) => filter.countries.includes(country))
+  )
+    return false;
+  if (
+    filter.languages.length &&
+    !languages.some((language) => filter.languages.includes(language))
+  )
+    return false;
+  if (
+    filter.contentTypes.length &&
+    !filter.contentTypes.some((type) => matchesContentType(channel, type))
+  )
+    return false;
+  if (filter.name && !matchesNamePattern(channel.tvgName, filter.name))
+    return false;
+
+  if (filter.excludeGroups.includes(group)) return false;
+  if (countries.some((country) => filter.excludeCountries.includes(country)))
+    return false;
+  if (
+    languages.some((language) => filter.excludeLanguages.includes(language))
+  )
+    return false;
+  if (
+    filter.excludeName &&
+    matchesNamePattern(channel.tvgName, filter.excludeName)
+  )
+    return false;
+
+  return true;
+}
+
+export async function* filterChannels(
+  channels: ChannelSource,
+  filter: PlaylistFilter
+): AsyncGenerator<M3UChannel> {
+  for await (const channel of channels) {
+    if (matchesPlaylistFilter(channel, filter)) yield channel;
+  }
+}
+
+// tvg-country and tvg-language may list several values: "TR;DE", "Turkish,English"
+function splitValues(value: string | undefined): string[] {
+  return value
+    ? value
+        .split(/[;,|]/)
+        .map((part) => part.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+}
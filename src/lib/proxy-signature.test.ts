@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  ProxySignatureError,
+  signProxyParams,
+  verifyProxyParams,
+} from "./proxy-signature";
+
+const DOWNLOAD = "/api/m3u/download";
+const secret = process.env.M3U_PROXY_SECRET;
+
+beforeEach(() => {
+  process.env.M3U_PROXY_SECRET = "test-secret";
+});
+
+afterEach(() => {
+  if (secret === undefined) delete process.env.M3U_PROXY_SECRET;
+  else process.env.M3U_PROXY_SECRET = secret;
+});
+
+function signedParams(expires?: number): URLSearchParams {
+  const params = new URLSearchParams({
+    url: "http://cdn.example/movie.mp4",
+    headers: JSON.stringify({ referer: "http://panel.example/" }),
+    filename: "movie.mp4",
+  });
+  signProxyParams(DOWNLOAD, params, expires);
+  return params;
+}
+
+function inAnHour(): number {
+  return Math.floor(Date.now() / 1000) + 3600;
+}
+
+describe("proxy link signatures", () => {
+  test("accepts a link it signed", () => {
+    const params = signedParams();
+    expect(params.get("sig")).toBeTruthy();
+    expect(Number(params.get("expires"))).toBeGreaterThan(Date.now() / 1000);
+    expect(() => verifyProxyParams(DOWNLOAD, params)).not.toThrow();
+  });
+
+  test("rejects an expired link", () => {
+    const params = signedParams(Math.floor(Date.now() / 1000) - 1);
+    expect(() => verifyProxyParams(DOWNLOAD, params)).toThrow(
+      "Bağlantının süresi doldu"
+    );
+  });
+
+  test("rejects a link whose expiry was pushed back", () => {
+    const params = signedParams(inAnHour());
+    params.set("expires", String(inAnHour() + 3600));
+    expect(() => verifyProxyParams(DOWNLOAD, params)).toThrow(
+      "Geçersiz imza"
+    );
+  });
+
+  test("binds the signature to the endpoint", () => {
+    const params = signedParams();
+    expect(() => verifyProxyParams("/api/m3u/stream", params)).toThrow(
+      "Geçersiz imza"
+    );
+    expect(() => verifyProxyParams("/api/m3u/hls", params)).toThrow(
+      ProxySignatureError
+    );
+  });
+
+  test("rejects a tampered url or headers", () => {
+    const url = signedParams();
+    url.set("url", "http://cdn.example/other.mp4");
+    expect(() => verifyProxyParams(DOWNLOAD, url)).toThrow("Geçersiz imza");
+
+    const headers = signedParams();
+    headers.set("headers", JSON.stringify({ cookie: "session=1" }));
+    expect(() => verifyProxyParams(DOWNLOAD, headers)).toThrow(
+      "Geçersiz imza"
+    );
+
+    const added = new URLSearchParams({ url: "http://cdn.example/a.mp4" });
+    signProxyParams(DOWNLOAD, added, inAnHour());
+    added.set("headers", JSON.stringify({ cookie: "session=1" }));
+    expect(() => verifyProxyParams(DOWNLOAD, added)).toThrow("Geçersiz imza");
+  });
+
+  test("ignores presentation parameters", () => {
+    const params = signedParams();
+    params.set("filename", "renamed.mp4");
+    expect(() => verifyProxyParams(DOWNLOAD, params)).not.toThrow();
+  });
+
+  test("rejects unsigned links and refuses to sign without a url", () => {
+    const params = signedParams();
+    params.delete("sig");
+    expect(() => verifyProxyParams(DOWNLOAD, params)).toThrow(
+      "İmzasız bağlantı"
+    );
+    expect(() => signProxyParams(DOWNLOAD, new URLSearchParams())).toThrow(
+      "Url gerekli"
+    );
+  });
+
+  test("rejects links signed with another secret", () => {
+    const params = signedParams();
+    process.env.M3U_PROXY_SECRET = "rotated-secret";
+    expect(() => verifyProxyParams(DOWNLOAD, params)).toThrow(
+      "Geçersiz imza"
+    );
+  });
+
+  test("signs with a temporary key when no secret is set", () => {
+    const configured = signedParams();
+    delete process.env.M3U_PROXY_SECRET;
+
+    expect(() => verifyProxyParams(DOWNLOAD, configured)).toThrow(
+      "Geçersiz imza"
+    );
+    const temporary = signedParams();
+    expect(temporary.get("sig")).not.toBe(configured.get("sig"));
+    expect(() => verifyProxyParams(DOWNLOAD, temporary)).not.toThrow();
+  });
+});
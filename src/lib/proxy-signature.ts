@@ -0,0 +1,126 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/** Endpoints that fetch a `url` parameter on behalf of the browser */
+export const SIGNED_PROXY_PATHS = [
+  "/api/m3u/download",
+  "/api/m3u/hls",
+  "/api/m3u/stream",
+];
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const DEFAULT_EXPORT_TTL_SECONDS = 24 * 60 * 60;
+
+export class ProxySignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProxySignatureError";
+  }
+}
+
+const globalForSecret = globalThis as unknown as {
+  proxySecret: Buffer | undefined;
+};
+
+/**
+ * Key for proxy link signatures from M3U_PROXY_SECRET. Without it a random
+ * key is used, so links stop working when the server restarts.
+ */
+function getSecret(): Buffer {
+  const configured = process.env.M3U_PROXY_SECRET;
+  if (configured) return Buffer.from(configured);
+
+  if (!globalForSecret.proxySecret) {
+    console.warn(
+      "M3U_PROXY_SECRET is not set; proxy links are signed with a temporary key"
+    );
+    // Shared through globalThis so every route bundle uses the same key
+    globalForSecret.proxySecret = randomBytes(32);
+  }
+  return globalForSecret.proxySecret;
+}
+
+function readTtlSeconds(name: string, fallback: number): number {
+  const ttl = Number(process.env[name]);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : fallback;
+}
+
+function expiresIn(seconds: number): number {
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+/**
+ * Expiry for stream links written into exported playlists, which players
+ * keep far longer than the UI keeps its links (M3U_EXPORT_PROXY_TTL)
+ */
+export function getExportProxyExpiry(): number {
+  return expiresIn(
+    readTtlSeconds("M3U_EXPORT_PROXY_TTL", DEFAULT_EXPORT_TTL_SECONDS)
+  );
+}
+
+// The endpoint, the target and its request headers are covered; filename
+// and the HLS options only change how the response is presented
+function createSignature(
+  path: string,
+  url: string,
+  headers: string | null,
+  expires: number
+): string {
+  return createHmac("sha256", getSecret())
+    .update(`${path}\n${expires}\n${url}\n${headers ?? ""}`)
+    .digest("base64url");
+}
+
+/**
+ * Add `expires` (Unix seconds) and `sig` to the parameters of a link to the
+ * proxy endpoint at `path`. Links stay valid for M3U_PROXY_URL_TTL seconds
+ * unless `expires` is given.
+ */
+export function signProxyParams(
+  path: string,
+  params: URLSearchParams,
+  expires = expiresIn(
+    readTtlSeconds("M3U_PROXY_URL_TTL", DEFAULT_TTL_SECONDS)
+  )
+): number {
+  const url = params.get("url");
+  if (!url) throw new ProxySignatureError("Url gerekli");
+
+  params.set("expires", String(expires));
+  params.set(
+    "sig",
+    createSignature(path, url, params.get("headers"), expires)
+  );
+  return expires;
+}
+
+/**
+ * Make sure proxy link parameters carry a valid, unexpired signature made
+ * for the endpoint at `path`
+ */
+export function verifyProxyParams(
+  path: string,
+  params: URLSearchParams
+): void {
+  const url = params.get("url");
+  const signature = params.get("sig");
+  const expires = Number(params.get("expires"));
+  if (!url || !signature || !Number.isInteger(expires)) {
+    throw new ProxySignatureError("İmzasız bağlantı");
+  }
+
+  const expected = Buffer.from(
+    createSignature(path, url, params.get("headers"), expires)
+  );
+  const actual = Buffer.from(signature);
+  if (
+    actual.length !== expected.length ||
+    !timingSafeEqual(actual, expected)
+  ) {
+    throw new ProxySignatureError("Geçersiz imza");
+  }
+
+  if (expires < Date.now() / 1000) {
+    throw new ProxySignatureError("Bağlantının süresi doldu");
+  }
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  RequestAuthError,
+  SESSION_COOKIE,
+  assertAuthorizedRequest,
+  isProxyAccessConfigured,
+  setSessionCookie,
+} from "./request-auth";
+
+const environment = {
+  token: process.env.M3U_ACCESS_TOKEN,
+  anonymous: process.env.M3U_ALLOW_ANONYMOUS_PROXY,
+};
+
+function restore(name: string, value: string | undefined) {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+beforeEach(() => {
+  delete process.env.M3U_ACCESS_TOKEN;
+  delete process.env.M3U_ALLOW_ANONYMOUS_PROXY;
+});
+
+afterEach(() => {
+  restore("M3U_ACCESS_TOKEN", environment.token);
+  restore("M3U_ALLOW_ANONYMOUS_PROXY", environment.anonymous);
+});
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost:3000/api/m3u/proxy-url", {
+    method: "POST",
+    headers: { host: "localhost:3000", ...headers },
+  });
+}
+
+function status(request: NextRequest): number {
+  try {
+    assertAuthorizedRequest(request);
+    return 200;
+  } catch (error) {
+    if (error instanceof RequestAuthError) return error.status;
+    throw error;
+  }
+}
+
+function sessionCookie(): string {
+  const response = NextResponse.json({});
+  setSessionCookie(request(), response);
+  return `${SESSION_COOKIE}=${response.cookies.get(SESSION_COOKIE)!.value}`;
+}
+
+describe("assertAuthorizedRequest", () => {
+  test("refuses every request when no token is configured", () => {
+    expect(status(request())).toBe(403);
+    expect(status(request({ "sec-fetch-site": "same-origin" }))).toBe(403);
+    expect(status(request({ authorization: "Bearer " }))).toBe(403);
+  });
+
+  test("keeps the same-origin check when anonymous access is allowed", () => {
+    process.env.M3U_ALLOW_ANONYMOUS_PROXY = "1";
+    expect(status(request())).toBe(200);
+    expect(status(request({ "sec-fetch-site": "same-origin" }))).toBe(200);
+    expect(status(request({ "sec-fetch-site": "cross-site" }))).toBe(403);
+    expect(status(request({ origin: "http://evil.example" }))).toBe(403);
+  });
+
+  test("accepts the token as a Bearer header", () => {
+    process.env.M3U_ACCESS_TOKEN = "secret-token";
+    expect(status(request({ authorization: "Bearer secret-token" }))).toBe(
+      200
+    );
+    expect(status(request({ authorization: "Bearer wrong-token" }))).toBe(
+      401
+    );
+    expect(status(request())).toBe(401);
+  });
+
+  test("accepts a session cookie from the same origin only", () => {
+    process.env.M3U_ACCESS_TOKEN = "secret-token";
+    const cookie = sessionCookie();
+    expect(status(request({ cookie }))).toBe(200);
+    expect(
+      status(request({ cookie, "sec-fetch-site": "cross-site" }))
+    ).toBe(403);
+
+    process.env.M3U_ACCESS_TOKEN = "rotated-token";
+    expect(status(request({ cookie }))).toBe(401);
+  });
+});
+
+describe("isProxyAccessConfigured", () => {
+  test("needs a token or anonymous access to be enabled", () => {
+    expect(isProxyAccessConfigured()).toBe(false);
+
+    process.env.M3U_ALLOW_ANONYMOUS_PROXY = "true";
+    expect(isProxyAccessConfigured()).toBe(false);
+    process.env.M3U_ALLOW_ANONYMOUS_PROXY = "1";
+    expect(isProxyAccessConfigured()).toBe(true);
+
+    delete process.env.M3U_ALLOW_ANONYMOUS_PROXY;
+    process.env.M3U_ACCESS_TOKEN = "secret-token";
+    expect(isProxyAccessConfigured()).toBe(true);
+  });
+});
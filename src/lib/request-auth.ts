@@ -0,0 +1,165 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+
+export const SESSION_COOKIE = "m3u_session";
+
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export class RequestAuthError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403
+  ) {
+    super(message);
+    this.name = "RequestAuthError";
+  }
+}
+
+/**
+ * M3U_ACCESS_TOKEN, the shared secret that unlocks link signing, proxied
+ * exports and changes to saved playlists
+ */
+function getAccessToken(): string | null {
+  return process.env.M3U_ACCESS_TOKEN || null;
+}
+
+/**
+ * M3U_ALLOW_ANONYMOUS_PROXY=1 lets same-origin requests through without a
+ * token, for servers only reachable from a trusted network
+ */
+function isAnonymousAccessAllowed(): boolean {
+  return process.env.M3U_ALLOW_ANONYMOUS_PROXY === "1";
+}
+
+export function isAccessTokenRequired(): boolean {
+  return Boolean(process.env.M3U_ACCESS_TOKEN);
+}
+
+/**
+ * Whether assertAuthorizedRequest can let anything through, so the UI can
+ * tell an unconfigured server from a missing token
+ */
+export function isProxyAccessConfigured(): boolean {
+  return Boolean(getAccessToken()) || isAnonymousAccessAllowed();
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const actual = Buffer.from(a);
+  const expected = Buffer.from(b);
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+}
+
+// "<expires>.<hmac>", keyed with the token so changing it ends every session
+function createSessionValue(token: string, expires: number): string {
+  const mac = createHmac("sha256", token)
+    .update(`m3u-session\n${expires}`)
+    .digest("base64url");
+  return `${expires}.${mac}`;
+}
+
+function isValidSession(token: string, value: string | undefined): boolean {
+  const expires = Number(value?.split(".")[0]);
+  return (
+    Number.isInteger(expires) &&
+    expires > Date.now() / 1000 &&
+    safeEqual(value!, createSessionValue(token, expires))
+  );
+}
+
+/**
+ * Whether the request comes from a page of this server. Browsers send
+ * Sec-Fetch-Site or Origin with every cross-site POST; clients that send
+ * neither are not browsers, so they cannot be abused through a user's
+ * session.
+ */
+function isSameOrigin(request: NextRequest): boolean {
+  const site = request.headers.get("sec-fetch-site");
+  if (site) return site === "same-origin" || site === "none";
+
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  const host =
+    request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Let a request use the server as a proxy or change saved playlists: a
+ * Bearer M3U_ACCESS_TOKEN, or a same-origin request that carries the
+ * session cookie from POST /api/auth. Without a token every request is
+ * refused unless M3U_ALLOW_ANONYMOUS_PROXY=1, which leaves only the
+ * same-origin check.
+ */
+export function assertAuthorizedRequest(request: NextRequest): void {
+  const token = getAccessToken();
+  if (!isProxyAccessConfigured()) {
+    throw new RequestAuthError(
+      "Sunucuda M3U_ACCESS_TOKEN ayarlanmamış; bu işlem kapalı",
+      403
+    );
+  }
+
+  const authorization = request.headers.get("authorization");
+  if (
+    token &&
+    authorization?.startsWith("Bearer ") &&
+    safeEqual(authorization.slice(7).trim(), token)
+  ) {
+    return;
+  }
+
+  if (!isSameOrigin(request)) {
+    throw new RequestAuthError("Başka bir siteden gelen istek reddedildi", 403);
+  }
+  if (
+    token &&
+    !isValidSession(token, request.cookies.get(SESSION_COOKIE)?.value)
+  ) {
+    throw new RequestAuthError("Erişim anahtarı gerekli", 401);
+  }
+}
+
+/**
+ * Check a token from the login form against M3U_ACCESS_TOKEN
+ */
+export function isValidAccessToken(value: unknown): boolean {
+  const token = process.env.M3U_ACCESS_TOKEN;
+  return (
+    Boolean(token) && typeof value === "string" && safeEqual(value, token!)
+  );
+}
+
+export function hasValidSession(request: NextRequest): boolean {
+  const token = process.env.M3U_ACCESS_TOKEN;
+  return (
+    !token || isValidSession(token, request.cookies.get(SESSION_COOKIE)?.value)
+  );
+}
+
+/**
+ * Start a session for the browser that sent the token
+ */
+export function setSessionCookie(
+  request: NextRequest,
+  response: NextResponse
+): void {
+  const expires = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const value = createSessionValue(process.env.M3U_ACCESS_TOKEN!, expires);
+  response.cookies.set(SESSION_COOKIE, value, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
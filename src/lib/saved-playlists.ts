@@ -0,0 +1,235 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import type { M3UChannel } from "@/lib/m3u-parser";
+
+export interface SavedPlaylistSummary {
+  id: string;
+  name: string;
+  channelCount: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Stable address for IPTV players, relative to the app origin */
+  m3uUrl: string;
+}
+
+export interface SavedPlaylist extends SavedPlaylistSummary {
+  playlistAttributes: Record<string, string>;
+}
+
+export interface SavedPlaylistInput {
+  name?: string;
+  channels?: M3UChannel[];
+  playlistAttributes?: Record<string, string>;
+}
+
+export class SavedPlaylistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedPlaylistError";
+  }
+}
+
+export const MAX_SAVED_CHANNELS = 200_000;
+const MAX_NAME_LENGTH = 120;
+
+// Rows per createMany / findMany round trip
+const WRITE_BATCH_SIZE = 500;
+const READ_BATCH_SIZE = 1000;
+
+interface PlaylistRow {
+  id: string;
+  name: string;
+  playlistAttributes: string;
+  channelCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Validate a create (all fields) or update (any field) request body
+ */
+export function parseSavedPlaylistInput(
+  body: unknown,
+  partial: boolean
+): SavedPlaylistInput {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new SavedPlaylistError("Geçersiz istek gövdesi");
+  }
+  const { name, channels, playlistAttributes } = body as Record<
+    string,
+    unknown
+  >;
+  const input: SavedPlaylistInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || !name.trim()) {
+      throw new SavedPlaylistError("Playlist adı gerekli");
+    }
+    input.name = name.trim().slice(0, MAX_NAME_LENGTH);
+  }
+
+  if (channels !== undefined || !partial) {
+    if (!Array.isArray(channels)) {
+      throw new SavedPlaylistError("Kanal listesi gerekli");
+    }
+    if (channels.length > MAX_SAVED_CHANNELS) {
+      throw new SavedPlaylistError(
+        `En fazla ${MAX_SAVED_CHANNELS} kanal kaydedilebilir`
+      );
+    }
+    input.channels = channels.filter(
+      (channel): channel is M3UChannel =>
+        !!channel &&
+        typeof channel === "object" &&
+        typeof channel.url === "string" &&
+        typeof channel.tvgName === "string"
+    );
+  }
+
+  if (playlistAttributes !== undefined) {
+    if (
+      !playlistAttributes ||
+      typeof playlistAttributes !== "object" ||
+      Array.isArray(playlistAttributes)
+    ) {
+      throw new SavedPlaylistError("playlistAttributes bir nesne olmalı");
+    }
+    input.playlistAttributes = Object.fromEntries(
+      Object.entries(playlistAttributes).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    );
+  }
+
+  return input;
+}
+
+export async function listSavedPlaylists(): Promise<SavedPlaylistSummary[]> {
+  const rows: PlaylistRow[] = await db.playlist.findMany({
+    orderBy: { updatedAt: "desc" },
+  });
+  return rows.map(toSummary);
+}
+
+export async function getSavedPlaylist(
+  id: string
+): Promise<SavedPlaylist | null> {
+  const row: PlaylistRow | null = await db.playlist.findUnique({
+    where: { id },
+  });
+  if (!row) return null;
+
+  return {
+    ...toSummary(row),
+    playlistAttributes: JSON.parse(row.playlistAttributes),
+  };
+}
+
+/**
+ * Read the channels of a saved playlist in order, a batch at a time
+ */
+export async function* readSavedChannels(
+  id: string
+): AsyncGenerator<M3UChannel> {
+  let position = -1;
+  while (true) {
+    const rows: { position: number; data: string }[] =
+      await db.playlistChannel.findMany({
+        where: { playlistId: id, position: { gt: position } },
+        orderBy: { position: "asc" },
+        take: READ_BATCH_SIZE,
+        select: { position: true, data: true },
+      });
+
+    for (const row of rows) yield JSON.parse(row.data) as M3UChannel;
+    if (rows.length < READ_BATCH_SIZE) return;
+    position = rows[rows.length - 1].position;
+  }
+}
+
+export async function createSavedPlaylist(
+  input: SavedPlaylistInput
+): Promise<SavedPlaylistSummary> {
+  const channels = input.channels || [];
+  const row: PlaylistRow = await db.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      const created = await tx.playlist.create({
+        data: {
+          name: input.name || "Playlist",
+          playlistAttributes: JSON.stringify(input.playlistAttributes || {}),
+          channelCount: channels.length,
+        },
+      });
+      await writeChannels(tx, created.id, channels);
+      return created;
+    },
+    { timeout: 60_000 }
+  );
+  return toSummary(row);
+}
+
+/**
+ * Apply an update; the channel list, when given, replaces the old one
+ */
+export async function updateSavedPlaylist(
+  id: string,
+  input: SavedPlaylistInput
+): Promise<SavedPlaylistSummary | null> {
+  const row: PlaylistRow | null = await db.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.playlist.findUnique({ where: { id } });
+      if (!existing) return null;
+
+      if (input.channels) {
+        await tx.playlistChannel.deleteMany({ where: { playlistId: id } });
+        await writeChannels(tx, id, input.channels);
+      }
+      return tx.playlist.update({
+        where: { id },
+        data: {
+          name: input.name,
+          playlistAttributes: input.playlistAttributes
+            ? JSON.stringify(input.playlistAttributes)
+            : undefined,
+          channelCount: input.channels?.length,
+          // Bump the timestamp even when only the channels changed
+          updatedAt: new Date(),
+        },
+      });
+    },
+    { timeout: 60_000 }
+  );
+  return row ? toSummary(row) : null;
+}
+
+export async function deleteSavedPlaylist(id: string): Promise<boolean> {
+  const { count } = await db.playlist.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+async function writeChannels(
+  tx: Prisma.TransactionClient,
+  playlistId: string,
+  channels: M3UChannel[]
+): Promise<void> {
+  for (let i = 0; i < channels.length; i += WRITE_BATCH_SIZE) {
+    await tx.playlistChannel.createMany({
+      data: channels.slice(i, i + WRITE_BATCH_SIZE).map((channel, index) => ({
+        playlistId,
+        position: i + index,
+        data: JSON.stringify(channel),
+      })),
+    });
+  }
+}
+
+function toSummary(row: PlaylistRow): SavedPlaylistSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    channelCount: row.channelCount,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    m3uUrl: `/api/playlists/${row.id}.m3u`,
+  };
+}
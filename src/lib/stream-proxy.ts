@@ -0,0 +1,272 @@
+import type { M3UChannel } from "@/lib/m3u-parser";
+
+const VLC_HEADER_OPTIONS: Record<string, string> = {
+  "http-user-agent": "user-agent",
+  "http-referrer": "referer",
+  "http-referer": "referer",
+  "http-origin": "origin",
+  "http-cookie": "cookie",
+};
+
+const KODI_HEADER_PROPS = [
+  "inputstream.adaptive.manifest_headers",
+  "inputstream.adaptive.stream_headers",
+];
+
+// Headers the proxy manages itself and never takes from a playlist
+const RESERVED_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "range",
+  "accept-encoding",
+]);
+
+/**
+ * Request headers a player should send when fetching the channel's stream,
+ * collected from #EXTVLCOPT, #KODIPROP and #EXTHTTP directives
+ */
+export function getStreamHeaders(channel: M3UChannel): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const [option, value] of Object.entries(channel.vlcOptions || {})) {
+    const header = VLC_HEADER_OPTIONS[option.toLowerCase()];
+    if (header && value) headers[header] = value;
+  }
+
+  // Kodi encodes header lists as "Name=value&Name2=value2"
+  for (const prop of KODI_HEADER_PROPS) {
+    const value = channel.kodiProps?.[prop];
+    if (!value) continue;
+    for (const pair of value.split("&")) {
+      const equals = pair.indexOf("=");
+      if (equals <= 0) continue;
+      try {
+        headers[decodeURIComponent(pair.slice(0, equals)).toLowerCase()] =
+          decodeURIComponent(pair.slice(equals + 1));
+      } catch {
+        // Skip pairs with broken percent-encoding
+      }
+    }
+  }
+
+  for (const [name, value] of Object.entries(channel.httpHeaders || {})) {
+    if (value) headers[name.toLowerCase()] = value;
+  }
+
+  return sanitizeHeaders(headers);
+}
+
+/**
+ * The channel without the directives getStreamHeaders reads, for playlists
+ * whose streams are fetched by the proxy with those headers already
+ */
+export function withoutStreamHeaders(channel: M3UChannel): M3UChannel {
+  const vlcOptions = Object.fromEntries(
+    Object.entries(channel.vlcOptions || {}).filter(
+      ([option]) => !(option.toLowerCase() in VLC_HEADER_OPTIONS)
+    )
+  );
+  const kodiProps = Object.fromEntries(
+    Object.entries(channel.kodiProps || {}).filter(
+      ([prop]) => !KODI_HEADER_PROPS.includes(prop)
+    )
+  );
+
+  return {
+    ...channel,
+    vlcOptions: Object.keys(vlcOptions).length > 0 ? vlcOptions : undefined,
+    kodiProps: Object.keys(kodiProps).length > 0 ? kodiProps : undefined,
+    httpHeaders: undefined,
+  };
+}
+
+/**
+ * Drop reserved header names and values that could split the request
+ */
+function sanitizeHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (!/^[a-z0-9!#$%&'*+.^_`|~-]+$/.test(key)) continue;
+    if (RESERVED_HEADERS.has(key)) continue;
+    if (/[\r\n]/.test(value)) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Parse the `headers` query parameter of the download proxy
+ */
+export function parseProxyHeaders(
+  param: string | null
+): Record<string, string> {
+  if (!param) return {};
+  try {
+    const parsed = JSON.parse(param);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+      return {};
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parsed)) {
+      if (typeof value === "string") headers[name] = value;
+    }
+    return sanitizeHeaders(headers);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Build a `/api/m3u/download?url=` link that fetches the target through
+ * this server, forwarding the given stream headers
+ */
+export function buildProxyUrl(
+  url: string,
+  options: { filename?: string; headers?: Record<string, string> } = {}
+): string {
+  const params = new URLSearchParams({ url });
+  if (options.filename) params.set("filename", options.filename);
+  if (options.headers && Object.keys(options.headers).length > 0) {
+    params.set("headers", JSON.stringify(options.headers));
+  }
+  return `/api/m3u/download?${params.toString()}`;
+}
+
+/**
+ * Build a `/api/m3u/stream?url=` link that relays a live or VOD stream,
+ * with HLS playlists rewritten to keep every request on this server
+ */
+export function buildStreamUrl(
+  url: string,
+  options: { headers?: Record<string, string> } = {}
+): string {
+  const params = new URLSearchParams({ url });
+  if (options.headers && Object.keys(options.headers).length > 0) {
+    params.set("headers", JSON.stringify(options.headers));
+  }
+  return `/api/m3u/stream?${params.toString()}`;
+}
+
+/**
+ * Build a `/api/m3u/hls?url=` link that downloads an HLS VOD as one file,
+ * or describes its variants with `info`
+ */
+export function buildHlsDownloadUrl(
+  url: string,
+  options: {
+    filename?: string;
+    headers?: Record<string, string>;
+    /** Index of the master playlist variant; the highest by default */
+    variant?: number;
+    info?: boolean;
+  } = {}
+): string {
+  const params = new URLSearchParams({ url });
+  if (options.filename) params.set("filename", options.filename);
+  if (options.headers && Object.keys(options.headers).length > 0) {
+    params.set("headers", JSON.stringify(options.headers));
+  }
+  if (options.variant !== undefined) {
+    params.set("variant", String(options.variant));
+  }
+  if (options.info) params.set("info", "1");
+  return `/api/m3u/hls?${params.toString()}`;
+}
+
+let promptAccessToken: (() => Promise<string | null>) | null = null;
+// Requests failing together share one prompt
+let pendingAccessToken: Promise<string | null> | null = null;
+
+/**
+ * Register how the UI asks for M3U_ACCESS_TOKEN; resolve with null when
+ * the user cancels
+ */
+export function setAccessTokenPrompt(
+  prompt: (() => Promise<string | null>) | null
+): void {
+  promptAccessToken = prompt;
+}
+
+/**
+ * fetch() for endpoints behind the access token. On 401 the user is asked
+ * for the token, which POST /api/auth exchanges for a session cookie, and
+ * the request is sent again.
+ */
+export async function authorizedFetch(
+  input: string,
+  init?: RequestInit
+): Promise<Response> {
+  let response = await fetch(input, init);
+
+  while (response.status === 401 && promptAccessToken) {
+    pendingAccessToken ??= promptAccessToken().finally(() => {
+      pendingAccessToken = null;
+    });
+    const token = await pendingAccessToken;
+    if (!token) break;
+
+    const login = await fetch("/api/auth", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    });
+    if (login.ok) response = await fetch(input, init);
+  }
+
+  return response;
+}
+
+// Signed links by unsigned link, reused until shortly before they expire
+const signedUrls = new Map<string, { url: string; expires: number }>();
+const SIGNATURE_MARGIN_SECONDS = 5 * 60;
+// HLS playback signs every segment; keep only the most recent links
+const MAX_SIGNED_URLS = 500;
+// Links per request to the signing endpoint
+const SIGN_BATCH_SIZE = 100;
+
+/**
+ * Have the server sign proxy links built with buildProxyUrl or
+ * buildHlsDownloadUrl; the proxy endpoints refuse unsigned links
+ */
+export async function signProxyUrls(urls: string[]): Promise<string[]> {
+  const validUntil = Date.now() / 1000 + SIGNATURE_MARGIN_SECONDS;
+  const missing = [...new Set(urls)].filter(
+    (url) => (signedUrls.get(url)?.expires ?? 0) <= validUntil
+  );
+
+  for (let i = 0; i < missing.length; i += SIGN_BATCH_SIZE) {
+    const batch = missing.slice(i, i + SIGN_BATCH_SIZE);
+    const response = await authorizedFetch("/api/m3u/proxy-url", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ urls: batch }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+
+    batch.forEach((url, index) => {
+      signedUrls.delete(url);
+      signedUrls.set(url, { url: result.urls[index], expires: result.expires });
+    });
+  }
+
+  const signed = urls.map((url) => signedUrls.get(url)!.url);
+  // Map keeps insertion order, so the first keys are the oldest
+  for (const url of signedUrls.keys()) {
+    if (signedUrls.size <= MAX_SIGNED_URLS) break;
+    signedUrls.delete(url);
+  }
+  return signed;
+}
+
+export async function signProxyUrl(url: string): Promise<string> {
+  const [signed] = await signProxyUrls([url]);
+  return signed;
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { parseM3U } from "./m3u-parser";
+import { verifyProxyParams } from "./proxy-signature";
+import {
+  createProxiedChannel,
+  createStreamLink,
+  rewriteHlsManifest,
+} from "./stream-relay";
+
+const secret = process.env.M3U_PROXY_SECRET;
+
+beforeEach(() => {
+  process.env.M3U_PROXY_SECRET = "test-secret";
+});
+
+afterEach(() => {
+  if (secret === undefined) delete process.env.M3U_PROXY_SECRET;
+  else process.env.M3U_PROXY_SECRET = secret;
+});
+
+const MANIFEST = "http://cdn.example/live/chunks.m3u8?token=1";
+
+function rewrite(...lines: string[]): string[] {
+  return rewriteHlsManifest(
+    lines.join("\n"),
+    MANIFEST,
+    (url) => `<${url}>`
+  ).split("\n");
+}
+
+describe("rewriteHlsManifest", () => {
+  test("resolves segment and variant lines against the playlist", () => {
+    expect(
+      rewrite(
+        "#EXTM3U",
+        "#EXTINF:6.0,",
+        "seg-1.ts",
+        "#EXTINF:6.0,",
+        "/other/seg-2.ts",
+        "../low/index.m3u8",
+        "https://edge.example/seg-3.ts"
+      )
+    ).toEqual([
+      "#EXTM3U",
+      "#EXTINF:6.0,",
+      "<http://cdn.example/live/seg-1.ts>",
+      "#EXTINF:6.0,",
+      "<http://cdn.example/other/seg-2.ts>",
+      "<http://cdn.example/low/index.m3u8>",
+      "<https://edge.example/seg-3.ts>",
+    ]);
+  });
+
+  test("rewrites the URI of keys, init sections and renditions", () => {
+    expect(
+      rewrite(
+        '#EXT-X-KEY:METHOD=AES-128,URI="key.bin",IV=0x1',
+        '#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"',
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="a",NAME="TR",URI="audio/tr.m3u8"'
+      )
+    ).toEqual([
+      '#EXT-X-KEY:METHOD=AES-128,' +
+        'URI="<http://cdn.example/live/key.bin>",IV=0x1',
+      '#EXT-X-MAP:URI="<http://cdn.example/live/init.mp4>",BYTERANGE="720@0"',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="a",NAME="TR",' +
+        'URI="<http://cdn.example/live/audio/tr.m3u8>"',
+    ]);
+  });
+
+  test("keeps data: keys, DRM schemes, comments and blank lines", () => {
+    const lines = [
+      '#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://asset-1"',
+      '#EXT-X-KEY:METHOD=AES-128,URI="data:text/plain;base64,AAAA"',
+      "#EXT-X-ENDLIST",
+      "",
+    ];
+    expect(rewrite(...lines)).toEqual(lines);
+  });
+
+  test("reads CRLF playlists and trims the URI lines", () => {
+    expect(
+      rewriteHlsManifest("#EXTM3U\r\n  seg.ts  \r\n", MANIFEST, (url) => url)
+    ).toBe("#EXTM3U\nhttp://cdn.example/live/seg.ts\n");
+  });
+});
+
+describe("createStreamLink", () => {
+  test("signs nested links with the headers and expiry of the playlist", () => {
+    const expires = Math.floor(Date.now() / 1000) + 600;
+    const headers = JSON.stringify({ referer: "http://panel.example/" });
+    const [line] = rewriteHlsManifest("seg.ts", MANIFEST, (url) =>
+      createStreamLink(url, headers, expires)
+    ).split("\n");
+
+    const link = new URL(line, "http://localhost");
+    expect(link.pathname).toBe("/api/m3u/stream");
+    expect(link.searchParams.get("url")).toBe(
+      "http://cdn.example/live/seg.ts"
+    );
+    expect(link.searchParams.get("headers")).toBe(headers);
+    expect(link.searchParams.get("expires")).toBe(String(expires));
+    expect(() =>
+      verifyProxyParams("/api/m3u/stream", link.searchParams)
+    ).not.toThrow();
+  });
+});
+
+describe("createProxiedChannel", () => {
+  const expires = Math.floor(Date.now() / 1000) + 600;
+
+  test("points the channel at the signed relay with its stream headers", () => {
+    const [channel] = parseM3U(
+      [
+        "#EXTM3U",
+        "#EXTINF:-1,TRT 1",
+        "#EXTVLCOPT:http-user-agent=Oynatici/1.0",
+        "#EXTVLCOPT:network-caching=1000",
+        "http://cdn.example/trt1.m3u8",
+      ].join("\n")
+    ).channels;
+
+    const proxied = createProxiedChannel(channel, {
+      baseUrl: "https://m3u.example",
+      expires,
+    });
+    const link = new URL(proxied.url);
+
+    expect(link.origin + link.pathname).toBe(
+      "https://m3u.example/api/m3u/stream"
+    );
+    expect(link.searchParams.get("url")).toBe("http://cdn.example/trt1.m3u8");
+    expect(JSON.parse(link.searchParams.get("headers")!)).toEqual({
+      "user-agent": "Oynatici/1.0",
+    });
+    expect(link.searchParams.get("expires")).toBe(String(expires));
+    expect(() =>
+      verifyProxyParams("/api/m3u/stream", link.searchParams)
+    ).not.toThrow();
+    // The relay sends the headers, players only keep their own options
+    expect(proxied.vlcOptions).toEqual({ "network-caching": "1000" });
+  });
+
+  test("keeps streams the relay cannot fetch", () => {
+    const [channel] = parseM3U(
+      "#EXTM3U\n#EXTINF:-1,Radyo\nrtmp://cdn.example/live\n"
+    ).channels;
+    expect(
+      createProxiedChannel(channel, { baseUrl: "https://m3u.example", expires })
+    ).toBe(channel);
+  });
+});
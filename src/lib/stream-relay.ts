@@ -0,0 +1,79 @@
+import type { M3UChannel } from "@/lib/m3u-parser";
+import { signProxyParams } from "@/lib/proxy-signature";
+import {
+  buildStreamUrl,
+  getStreamHeaders,
+  withoutStreamHeaders,
+} from "@/lib/stream-proxy";
+
+/**
+ * Signed `/api/m3u/stream` link for a target, valid until `expires`.
+ * `headers` is the raw JSON of the link being extended, so links derived
+ * from a manifest carry exactly the headers their manifest was fetched with.
+ */
+export function createStreamLink(
+  url: string,
+  headers: string | null,
+  expires: number
+): string {
+  const params = new URLSearchParams({ url });
+  if (headers) params.set("headers", headers);
+  signProxyParams("/api/m3u/stream", params, expires);
+  return `/api/m3u/stream?${params.toString()}`;
+}
+
+/**
+ * The channel with its stream URL pointing at this server's relay, which
+ * sends the channel's stream headers itself. Non-HTTP streams are kept.
+ */
+export function createProxiedChannel(
+  channel: M3UChannel,
+  options: { baseUrl: string; expires: number }
+): M3UChannel {
+  if (!/^https?:\/\//i.test(channel.url)) return channel;
+
+  const link = new URL(
+    buildStreamUrl(channel.url, { headers: getStreamHeaders(channel) }),
+    options.baseUrl
+  );
+  signProxyParams(link.pathname, link.searchParams, options.expires);
+  return { ...withoutStreamHeaders(channel), url: link.toString() };
+}
+
+/**
+ * Point every URI of an HLS playlist (variants, segments, keys, init
+ * sections, renditions) at `toLink`, resolved against the playlist's URL
+ */
+export function rewriteHlsManifest(
+  text: string,
+  manifestUrl: string,
+  toLink: (url: string) => string
+): string {
+  const rewrite = (uri: string) => {
+    let resolved: URL;
+    try {
+      resolved = new URL(uri, manifestUrl);
+    } catch {
+      return uri;
+    }
+    // data: keys and DRM schemes like skd:// stay as they are
+    return resolved.protocol === "http:" || resolved.protocol === "https:"
+      ? toLink(resolved.toString())
+      : uri;
+  };
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith("#")) {
+        return line.replace(
+          /URI="([^"]*)"/g,
+          (_, uri: string) => `URI="${rewrite(uri)}"`
+        );
+      }
+      return rewrite(trimmed);
+    })
+    .join("\n");
+}
@@ -0,0 +1,75 @@
+export const PLAYLIST_ENCODINGS = [
+  "utf-8",
+  "windows-1254",
+  "iso-8859-9",
+  "windows-1252",
+  "utf-16le",
+  "utf-16be",
+] as const;
+
+export type PlaylistEncoding = (typeof PLAYLIST_ENCODINGS)[number];
+
+export type EncodingOption = "auto" | PlaylistEncoding;
+
+export const ENCODING_LABELS: Record<EncodingOption, string> = {
+  auto: "Auto detect",
+  "utf-8": "UTF-8",
+  "windows-1254": "Windows-1254 (Turkish)",
+  "iso-8859-9": "ISO-8859-9 (Latin-5)",
+  "windows-1252": "Windows-1252 (Western)",
+  "utf-16le": "UTF-16 LE",
+  "utf-16be": "UTF-16 BE",
+};
+
+// How many leading bytes are inspected when guessing the encoding
+export const ENCODING_SAMPLE_SIZE = 1024 * 1024;
+
+export function isEncodingOption(value: unknown): value is EncodingOption {
+  return (
+    value === "auto" || PLAYLIST_ENCODINGS.includes(value as PlaylistEncoding)
+  );
+}
+
+/**
+ * Guess the text encoding of a playlist from its first bytes.
+ * A BOM wins; otherwise valid UTF-8 is assumed to be UTF-8, and anything else
+ * is treated as a Turkish single-byte code page.
+ */
+export function detectEncoding(sample: Uint8Array): PlaylistEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf)
+    return "utf-8";
+  if (sample[0] === 0xff && sample[1] === 0xfe) return "utf-16le";
+  if (sample[0] === 0xfe && sample[1] === 0xff) return "utf-16be";
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off by the sample end
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf-8";
+  } catch {
+    // Not UTF-8
+  }
+
+  // 0x80-0x9F are printable in Windows-1254 (€, –, “ ”) but control codes in
+  // ISO-8859-9; the two agree everywhere else
+  for (const byte of sample) {
+    if (byte >= 0x80 && byte <= 0x9f) return "windows-1254";
+  }
+  return "iso-8859-9";
+}
+
+/**
+ * Resolve the user's choice to a concrete encoding
+ */
+export function resolveEncoding(
+  option: EncodingOption,
+  sample: Uint8Array
+): PlaylistEncoding {
+  return option === "auto" ? detectEncoding(sample) : option;
+}
+
+/**
+ * Streaming decoder for the given encoding; a leading BOM is dropped
+ */
+export function createPlaylistDecoder(encoding: PlaylistEncoding): TextDecoder {
+  return new TextDecoder(encoding, { fatal: false });
+}
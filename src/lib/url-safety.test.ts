@@ -0,0 +1,186 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import {
+  BlockedUrlError,
+  MAX_REDIRECTS,
+  assertPublicHttpUrl,
+  isBlockedAddress,
+  isBlockedHostname,
+  safeFetch,
+} from "./url-safety";
+
+const environment = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...environment };
+});
+
+describe("isBlockedAddress", () => {
+  test("blocks loopback, private, link-local and reserved ranges", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "224.0.0.1",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:10.0.0.1",
+    ]) {
+      expect(isBlockedAddress(address)).toBe(true);
+    }
+  });
+
+  test("lets public addresses through", () => {
+    for (const address of [
+      "8.8.8.8",
+      "172.32.0.1",
+      "2001:4860:4860::8888",
+      "::ffff:8.8.8.8",
+    ]) {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  });
+
+  test("treats anything that is not an IP as blocked", () => {
+    expect(isBlockedAddress("example.com")).toBe(true);
+  });
+
+  test("applies M3U_ALLOWED_CIDRS and lets M3U_BLOCKED_CIDRS win", () => {
+    process.env.M3U_ALLOWED_CIDRS = "192.168.1.0/24";
+    process.env.M3U_BLOCKED_CIDRS = "192.168.1.66,8.8.8.0/24";
+
+    expect(isBlockedAddress("192.168.1.20")).toBe(false);
+    expect(isBlockedAddress("192.168.2.20")).toBe(true);
+    expect(isBlockedAddress("192.168.1.66")).toBe(true);
+    expect(isBlockedAddress("8.8.8.8")).toBe(true);
+  });
+});
+
+describe("isBlockedHostname", () => {
+  test("blocks localhost names", () => {
+    expect(isBlockedHostname("localhost")).toBe(true);
+    expect(isBlockedHostname("LOCALHOST.")).toBe(true);
+    expect(isBlockedHostname("panel.localhost")).toBe(true);
+  });
+
+  test("reads IPv4 literals in every inet_aton notation", () => {
+    for (const host of [
+      "2130706433",
+      "0x7f000001",
+      "0x7f.1",
+      "0177.0.0.1",
+      "127.1",
+      "0xa.0.0.1",
+      "[::ffff:127.0.0.1]",
+      "[::1]",
+    ]) {
+      expect(isBlockedHostname(host)).toBe(true);
+    }
+  });
+
+  test("does not judge names before they are resolved", () => {
+    expect(isBlockedHostname("panel.example")).toBe(false);
+    expect(isBlockedHostname("8.8.8.8")).toBe(false);
+  });
+
+  test("exempts M3U_ALLOWED_HOSTS", () => {
+    process.env.M3U_ALLOWED_HOSTS = "localhost, 192.168.1.20";
+    expect(isBlockedHostname("localhost")).toBe(false);
+    expect(isBlockedHostname("192.168.1.20")).toBe(false);
+    expect(isBlockedHostname("192.168.1.21")).toBe(true);
+  });
+});
+
+describe("assertPublicHttpUrl", () => {
+  test("refuses other schemes and blocked hosts", () => {
+    for (const url of [
+      "file:///etc/passwd",
+      "ftp://panel.example/",
+      "not a url",
+      "http://0x7f.1/",
+      "http://[::ffff:7f00:1]/",
+    ]) {
+      expect(() => assertPublicHttpUrl(url)).toThrow(BlockedUrlError);
+    }
+    expect(assertPublicHttpUrl("https://panel.example/a").host).toBe(
+      "panel.example"
+    );
+  });
+});
+
+describe("safeFetch", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let base: string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(request) {
+        const url = new URL(request.url);
+        const location =
+          url.pathname === "/loop" ? "/loop" : url.searchParams.get("to");
+        if (location) {
+          return new Response(null, { status: 302, headers: { location } });
+        }
+        return new Response(`ok ${url.pathname}`);
+      },
+    });
+    base = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("refuses a loopback address unless it is allowed", async () => {
+    await expect(safeFetch(`${base}/`)).rejects.toThrow(BlockedUrlError);
+
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    const { response, url } = await safeFetch(`${base}/`);
+    expect(await response.text()).toBe("ok /");
+    expect(url.pathname).toBe("/");
+  });
+
+  test("follows allowed redirects and reports the final URL", async () => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    const { response, url } = await safeFetch(`${base}/redirect?to=/final`);
+    expect(await response.text()).toBe("ok /final");
+    expect(url.toString()).toBe(`${base}/final`);
+  });
+
+  test("checks every redirect hop against the blocklist", async () => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    for (const target of [
+      `http://localhost:${server.port}/`,
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/",
+      "file:///etc/passwd",
+    ]) {
+      await expect(
+        safeFetch(`${base}/redirect?to=${encodeURIComponent(target)}`)
+      ).rejects.toThrow(BlockedUrlError);
+    }
+  });
+
+  test(`gives up after ${MAX_REDIRECTS} redirects`, async () => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    await expect(safeFetch(`${base}/loop`)).rejects.toThrow(
+      "Çok fazla yönlendirme"
+    );
+  });
+});
@@ -0,0 +1,323 @@
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import { Readable } from "node:stream";
+import zlib from "node:zlib";
+
+export const MAX_REDIRECTS = 5;
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+// Loopback, private, link-local, shared, benchmark, multicast and reserved
+// ranges; IPv4-mapped IPv6 addresses are checked against the IPv4 rules
+const DEFAULT_BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["fec0::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+interface AddressRules {
+  blocked: net.BlockList;
+  allowed: net.BlockList;
+  denied: net.BlockList;
+}
+
+let cachedRules: { key: string; rules: AddressRules } | null = null;
+
+/**
+ * Hostnames exempt from the blocklist, e.g. a local mock panel during
+ * development: M3U_ALLOWED_HOSTS=localhost,192.168.1.20
+ */
+function getAllowedHosts(): Set<string> {
+  return new Set(
+    (process.env.M3U_ALLOWED_HOSTS || "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Address rules for a self-hosted setup: M3U_ALLOWED_CIDRS exempts ranges
+ * from the built-in blocklist (192.168.1.0/24 for a panel on the LAN) and
+ * M3U_BLOCKED_CIDRS blocks further ranges, winning over both.
+ */
+function getAddressRules(): AddressRules {
+  const allowed = process.env.M3U_ALLOWED_CIDRS || "";
+  const denied = process.env.M3U_BLOCKED_CIDRS || "";
+  const key = `${allowed}|${denied}`;
+  if (cachedRules?.key === key) return cachedRules.rules;
+
+  const blocked = new net.BlockList();
+  for (const [address, prefix, type] of DEFAULT_BLOCKED_SUBNETS) {
+    blocked.addSubnet(address, prefix, type);
+  }
+
+  const rules = {
+    blocked,
+    allowed: parseCidrList(allowed, "M3U_ALLOWED_CIDRS"),
+    denied: parseCidrList(denied, "M3U_BLOCKED_CIDRS"),
+  };
+  cachedRules = { key, rules };
+  return rules;
+}
+
+function parseCidrList(value: string, name: string): net.BlockList {
+  const list = new net.BlockList();
+  for (const entry of value.split(",").map((part) => part.trim())) {
+    if (!entry) continue;
+
+    const [address, prefix] = entry.split("/");
+    const type = net.isIP(address);
+    const maxBits = type === 6 ? 128 : 32;
+    const bits = prefix === undefined ? maxBits : Number(prefix);
+    if (!type || !Number.isInteger(bits) || bits < 0 || bits > maxBits) {
+      console.warn(`${name}: invalid entry ignored: ${entry}`);
+      continue;
+    }
+    list.addSubnet(address, bits, type === 6 ? "ipv6" : "ipv4");
+  }
+  return list;
+}
+
+/**
+ * Whether a resolved IPv4 or IPv6 address may be fetched
+ */
+export function isBlockedAddress(address: string): boolean {
+  const type = net.isIP(address);
+  if (!type) return true;
+
+  const family = type === 6 ? "ipv6" : "ipv4";
+  const rules = getAddressRules();
+  if (rules.denied.check(address, family)) return true;
+  if (rules.allowed.check(address, family)) return false;
+  return rules.blocked.check(address, family);
+}
+
+/**
+ * Read an IPv4 address in any form inet_aton accepts: 2130706433,
+ * 0x7f000001, 0177.0.0.1, 127.1
+ */
+function parseIPv4(host: string): string | null {
+  const parts = host.split(".");
+  if (parts.length > 4) return null;
+
+  const numbers: number[] = [];
+  for (const part of parts) {
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      numbers.push(parseInt(part.slice(2) || "0", 16));
+    } else if (/^0[0-7]+$/.test(part)) {
+      numbers.push(parseInt(part, 8));
+    } else if (/^\d+$/.test(part)) {
+      numbers.push(Number(part));
+    } else {
+      return null;
+    }
+  }
+
+  // The last part fills all remaining bytes
+  const last = numbers.pop()!;
+  if (numbers.some((n) => n > 255) || last >= 256 ** (4 - numbers.length)) {
+    return null;
+  }
+  let address = last;
+  numbers.forEach((n, i) => {
+    address += n * 256 ** (3 - i);
+  });
+  return [24, 16, 8, 0].map((shift) => (address >>> shift) & 255).join(".");
+}
+
+/**
+ * Check a hostname without resolving it: names that always point at this
+ * machine and IP literals (in any notation) outside the allowed ranges
+ */
+export function isBlockedHostname(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (getAllowedHosts().has(host)) return false;
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+
+  if (net.isIP(host)) return isBlockedAddress(host);
+  const ipv4 = parseIPv4(host);
+  return ipv4 ? isBlockedAddress(ipv4) : false;
+}
+
+/**
+ * Parse a user supplied URL and make sure it is a public http(s) address
+ */
+export function assertPublicHttpUrl(input: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new BlockedUrlError("Geçersiz url");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedUrlError("Geçersiz url");
+  }
+
+  if (isBlockedHostname(url.hostname)) {
+    throw new BlockedUrlError("Engellenen url");
+  }
+
+  return url;
+}
+
+/**
+ * dns.lookup for outgoing connections that refuses blocked addresses. The
+ * check runs on the addresses the socket actually connects to, so a name
+ * cannot resolve to a public address for a check and a private one after.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+
+    const allowedHost = getAllowedHosts().has(hostname.toLowerCase());
+    if (
+      !allowedHost &&
+      addresses.some((entry) => isBlockedAddress(entry.address))
+    ) {
+      return callback(new BlockedUrlError("Engellenen url"), "", 0);
+    }
+    if (options.all) {
+      (callback as unknown as (
+        error: null,
+        addresses: dns.LookupAddress[]
+      ) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export interface SafeFetchInit {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * GET that follows redirects itself so every hop is checked against the
+ * blocklist, and connects only to addresses that pass it. Returns the final
+ * response together with its URL.
+ */
+export async function safeFetch(
+  input: string | URL,
+  init: SafeFetchInit = {}
+): Promise<{ response: Response; url: URL }> {
+  let url = assertPublicHttpUrl(input);
+  let headers = init.headers ?? {};
+
+  for (let hop = 0; ; hop++) {
+    const response = await request(url, headers, init.signal);
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url };
+    }
+
+    // Release the redirect body before following it
+    await response.body?.cancel().catch(() => {});
+
+    if (hop >= MAX_REDIRECTS) {
+      throw new BlockedUrlError("Çok fazla yönlendirme");
+    }
+    const next = assertPublicHttpUrl(new URL(location, url));
+    // Like fetch, credentials are not passed on to another origin
+    if (next.origin !== url.origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(
+          ([name]) => !/^(authorization|cookie)$/i.test(name)
+        )
+      );
+    }
+    url = next;
+  }
+}
+
+function request(
+  url: URL,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: "GET",
+        headers: { "accept-encoding": "gzip, deflate, br", ...headers },
+        lookup: safeLookup,
+        signal,
+      },
+      (res) => {
+        const status = res.statusCode ?? 502;
+        const responseHeaders = new Headers();
+        for (let i = 0; i < res.rawHeaders.length; i += 2) {
+          responseHeaders.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+        }
+
+        if (status === 204 || status === 304) {
+          res.resume();
+          resolve(new Response(null, { status, headers: responseHeaders }));
+          return;
+        }
+
+        // Decode like fetch does; the sizes then no longer apply
+        let body: Readable = res;
+        const encoding = responseHeaders
+          .get("content-encoding")
+          ?.toLowerCase();
+        const decoder =
+          encoding === "gzip" || encoding === "x-gzip"
+            ? zlib.createGunzip()
+            : encoding === "deflate"
+            ? zlib.createInflate()
+            : encoding === "br"
+            ? zlib.createBrotliDecompress()
+            : null;
+        if (decoder) {
+          body = res.pipe(decoder);
+          res.on("error", (error) => decoder.destroy(error));
+          responseHeaders.delete("content-encoding");
+          responseHeaders.delete("content-length");
+        }
+
+        // Node and Bun type web streams differently from lib.dom
+        const stream = Readable.toWeb(body) as unknown as ReadableStream;
+        resolve(
+          new Response(stream, {
+            status,
+            statusText: res.statusMessage,
+            headers: responseHeaders,
+          })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { remapFavorites } from "./channel-id";
+import { PlaylistTooLargeError, collectPlaylistStream } from "./m3u-stream";
+import { importXtream } from "./xtream";
+
+describe("importXtream", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let liveStreams: object[];
+  const allowedHosts = process.env.M3U_ALLOWED_HOSTS;
+
+  beforeAll(() => {
+    process.env.M3U_ALLOWED_HOSTS = "127.0.0.1";
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(request) {
+        const params = new URL(request.url).searchParams;
+        switch (params.get("action")) {
+          case null:
+            return Response.json({ user_info: { auth: 1 } });
+          case "get_live_categories":
+            return Response.json([{ category_id: 1, category_name: "Ulusal" }]);
+          case "get_live_streams":
+            return Response.json(liveStreams);
+          case "get_series":
+            return Response.json([
+              { name: "Dizi", series_id: 1 },
+              { name: "Bozuk", series_id: 2 },
+            ]);
+          case "get_series_info":
+            if (params.get("series_id") === "2") {
+              return new Response("", { status: 500 });
+            }
+            return Response.json({
+              episodes: { "1": [{ id: 10, season: 1, episode_num: 1 }] },
+            });
+          default:
+            return Response.json([]);
+        }
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    if (allowedHosts === undefined) delete process.env.M3U_ALLOWED_HOSTS;
+    else process.env.M3U_ALLOWED_HOSTS = allowedHosts;
+  });
+
+  function importFrom(options: Partial<Parameters<typeof importXtream>[0]>) {
+    return collectPlaylistStream(
+      importXtream({
+        server: `http://127.0.0.1:${server.port}`,
+        username: "user",
+        password: "pass",
+        types: ["live"],
+        ...options,
+      })
+    );
+  }
+
+  async function load() {
+    return (await importFrom({})).channels;
+  }
+
+  test("gives content-derived IDs that survive a re-import", async () => {
+    liveStreams = [
+      { name: "TRT 1", stream_id: 1, category_id: 1 },
+      { name: "ATV", stream_id: 2, category_id: 1 },
+    ];
+    const first = await load();
+
+    liveStreams = [liveStreams[1], liveStreams[0]];
+    const second = await load();
+
+    expect(first[0].id).toMatch(/^ch-/);
+    expect(second.map((channel) => channel.id)).toEqual([
+      first[1].id,
+      first[0].id,
+    ]);
+  });
+
+  test("lets favorites follow a stream whose ID changed", async () => {
+    liveStreams = [{ name: "TRT 1", stream_id: 1, category_id: 1 }];
+    const [before] = await load();
+
+    // The panel renumbered the stream, so its URL and ID changed
+    liveStreams = [{ name: "TRT 1", stream_id: 7, category_id: 1 }];
+    const after = await load();
+
+    const { favorites, remapped } = remapFavorites(
+      new Set([before.id]),
+      [before],
+      after
+    );
+    expect(after[0].id).not.toBe(before.id);
+    expect(remapped).toBe(1);
+    expect([...favorites]).toEqual([after[0].id]);
+  });
+
+  test("reports series that could not be loaded", async () => {
+    const result = await importFrom({ types: ["series"] });
+
+    expect(result.channels.map((channel) => channel.tvgName)).toEqual([
+      "Dizi S01E01",
+    ]);
+    expect(result.skippedEntries).toBe(1);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: "skipped-series",
+      line: 0,
+    });
+    expect(result.diagnostics[0].raw).toStartWith("Bozuk (series_id 2)");
+  });
+
+  test("stops once the byte budget runs out", async () => {
+    liveStreams = [];
+    // Enough for the account and list calls, not for the episodes
+    await expect(
+      importFrom({ types: ["series"], maxBytes: 100 })
+    ).rejects.toThrow(PlaylistTooLargeError);
+  });
+});
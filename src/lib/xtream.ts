@@ -0,0 +1,438 @@
+import { ChannelIdGenerator } from "@/lib/channel-id";
+import {
+  DEFAULT_GROUP_TITLE,
+  DIAGNOSTIC_DETAILS,
+  MAX_DIAGNOSTICS,
+  buildGroups,
+  getStreamScheme,
+  type ContentType,
+  type M3UChannel,
+  type M3UDiagnostic,
+} from "@/lib/m3u-parser";
+import {
+  PlaylistTooLargeError,
+  readAll,
+  type PlaylistStream,
+} from "@/lib/m3u-stream";
+import { safeFetch } from "@/lib/url-safety";
+
+export interface XtreamCredentials {
+  /** Panel address, e.g. http://panel.example:8080 */
+  server: string;
+  username: string;
+  password: string;
+}
+
+export interface XtreamImportOptions extends XtreamCredentials {
+  types?: ContentType[];
+  /** Container requested for live streams */
+  liveFormat?: "ts" | "m3u8";
+  /** Limit for all panel responses of the import together */
+  maxBytes?: number;
+  signal?: AbortSignal;
+}
+
+export class XtreamError extends Error {
+  constructor(
+    message: string,
+    public status = 502
+  ) {
+    super(message);
+    this.name = "XtreamError";
+  }
+}
+
+interface XtreamCategory {
+  category_id: string | number;
+  category_name: string;
+}
+
+interface XtreamLiveStream {
+  num?: number;
+  name: string;
+  stream_id: number;
+  stream_icon?: string;
+  epg_channel_id?: string | null;
+  category_id?: string | number | null;
+  tv_archive?: number;
+  tv_archive_duration?: number | string;
+}
+
+interface XtreamVodStream {
+  name: string;
+  stream_id: number;
+  stream_icon?: string;
+  category_id?: string | number | null;
+  container_extension?: string;
+}
+
+interface XtreamSeries {
+  name: string;
+  series_id: number;
+  cover?: string;
+  category_id?: string | number | null;
+}
+
+interface XtreamEpisode {
+  id: string | number;
+  episode_num?: number | string;
+  title?: string;
+  season?: number | string;
+  container_extension?: string;
+  info?: { movie_image?: string };
+}
+
+interface XtreamSeriesInfo {
+  episodes?: Record<string, XtreamEpisode[]> | XtreamEpisode[];
+}
+
+// Series episodes need one request per series; keep the panel happy
+const SERIES_CONCURRENCY = 4;
+
+/**
+ * Normalize what users paste (panel root, player_api.php or get.php links)
+ * to the panel base URL
+ */
+export function getXtreamBaseUrl(server: string): URL {
+  const input = /^[a-z][a-z0-9+.-]*:\/\//i.test(server.trim())
+    ? server.trim()
+    : `http://${server.trim()}`;
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new XtreamError("Geçersiz sunucu adresi", 400);
+  }
+
+  const path = url.pathname.replace(/\/(player_api|get|xmltv)\.php$/i, "/");
+  return new URL(`${url.origin}${path.endsWith("/") ? path : `${path}/`}`);
+}
+
+/**
+ * Import live streams, VOD and series from an Xtream Codes panel, yielding
+ * channels per category type as they are mapped
+ */
+export async function* importXtream(
+  options: XtreamImportOptions
+): PlaylistStream {
+  const types = options.types?.length
+    ? options.types
+    : (["live", "vod", "series"] as ContentType[]);
+  const base = getXtreamBaseUrl(options.server);
+  const client = new XtreamClient(base, options);
+  // Content-derived IDs like parsed playlists get, so favorites survive a
+  // re-import of the panel
+  const ids = new ChannelIdGenerator();
+  const channels: M3UChannel[] = [];
+  const diagnostics: M3UDiagnostic[] = [];
+  let skippedSeries = 0;
+
+  const account = await client.call<{ user_info?: { auth?: number } }>();
+  if (!account?.user_info || Number(account.user_info.auth) !== 1) {
+    throw new XtreamError("Xtream kimlik doğrulaması başarısız", 401);
+  }
+
+  if (types.includes("live")) {
+    const categories = await client.categories("get_live_categories");
+    const streams = await client.call<XtreamLiveStream[]>("get_live_streams");
+    const mapped = (Array.isArray(streams) ? streams : []).map((stream) =>
+      mapLiveStream(
+        stream,
+        categories,
+        client,
+        ids,
+        options.liveFormat || "ts"
+      )
+    );
+    channels.push(...mapped);
+    yield { channels: mapped, bytesRead: client.bytesRead };
+  }
+
+  if (types.includes("vod")) {
+    const categories = await client.categories("get_vod_categories");
+    const streams = await client.call<XtreamVodStream[]>("get_vod_streams");
+    const mapped = (Array.isArray(streams) ? streams : []).map((stream) =>
+      mapVodStream(stream, categories, client, ids)
+    );
+    channels.push(...mapped);
+    yield { channels: mapped, bytesRead: client.bytesRead };
+  }
+
+  if (types.includes("series")) {
+    const categories = await client.categories("get_series_categories");
+    const series = await client.call<XtreamSeries[]>("get_series");
+    const list = Array.isArray(series) ? series : [];
+
+    for (let i = 0; i < list.length; i += SERIES_CONCURRENCY) {
+      const slice = list.slice(i, i + SERIES_CONCURRENCY);
+      const batch = await Promise.all(
+        slice.map((item) => loadSeriesEpisodes(item, client))
+      );
+      // Map in list order so duplicates get their IDs deterministically
+      const mapped = slice.flatMap((item, index) => {
+        const episodes = batch[index];
+        if (episodes instanceof Error) {
+          skippedSeries++;
+          if (diagnostics.length < MAX_DIAGNOSTICS) {
+            diagnostics.push({
+              ...DIAGNOSTIC_DETAILS["skipped-series"],
+              code: "skipped-series",
+              line: 0,
+              raw:
+                `${item.name} (series_id ${item.series_id}): ` +
+                episodes.message,
+            });
+          }
+          return [];
+        }
+        return mapSeriesEpisodes(item, episodes, categories, client, ids);
+      });
+      channels.push(...mapped);
+      yield { channels: mapped, bytesRead: client.bytesRead };
+    }
+  }
+
+  return {
+    channels,
+    totalChannels: channels.length,
+    groups: buildGroups(channels),
+    diagnostics,
+    diagnosticSummary: skippedSeries
+      ? [
+          {
+            ...DIAGNOSTIC_DETAILS["skipped-series"],
+            code: "skipped-series",
+            count: skippedSeries,
+          },
+        ]
+      : [],
+    skippedEntries: skippedSeries,
+    playlistType: "m3u",
+    playlistAttributes: {},
+    encoding: "utf-8",
+  };
+}
+
+class XtreamClient {
+  bytesRead = 0;
+
+  constructor(
+    private base: URL,
+    private options: XtreamImportOptions
+  ) {}
+
+  /**
+   * Call player_api.php; without an action it returns the account info
+   */
+  async call<T>(action?: string, extra: Record<string, string> = {}) {
+    const url = new URL("player_api.php", this.base);
+    url.searchParams.set("username", this.options.username);
+    url.searchParams.set("password", this.options.password);
+    if (action) url.searchParams.set("action", action);
+    for (const [key, value] of Object.entries(extra)) {
+      url.searchParams.set(key, value);
+    }
+
+    const { response } = await safeFetch(url, {
+      headers: { accept: "application/json" },
+      signal: this.options.signal,
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new XtreamError(
+        `Xtream paneli yanıt vermedi (HTTP ${response.status})`,
+        response.status === 401 || response.status === 403 ? 401 : 502
+      );
+    }
+
+    if (!response.body) {
+      throw new XtreamError("Xtream paneli geçersiz yanıt döndürdü");
+    }
+
+    const maxBytes = this.options.maxBytes ?? Infinity;
+    let bytes: Uint8Array;
+    try {
+      bytes = await readAll(response.body, maxBytes - this.bytesRead);
+    } catch (error) {
+      // Report the limit of the whole import rather than what was left
+      throw error instanceof PlaylistTooLargeError
+        ? new PlaylistTooLargeError(maxBytes)
+        : error;
+    }
+    this.bytesRead += bytes.byteLength;
+    try {
+      return JSON.parse(new TextDecoder().decode(bytes)) as T;
+    } catch {
+      throw new XtreamError("Xtream paneli geçersiz yanıt döndürdü");
+    }
+  }
+
+  async categories(action: string): Promise<Map<string, string>> {
+    const list = await this.call<XtreamCategory[]>(action);
+    return new Map(
+      (Array.isArray(list) ? list : []).map((category) => [
+        String(category.category_id),
+        category.category_name,
+      ])
+    );
+  }
+
+  streamUrl(kind: "live" | "movie" | "series", id: string, ext: string) {
+    const { username, password } = this.options;
+    return new URL(
+      `${kind}/${encodeURIComponent(username)}/${encodeURIComponent(
+        password
+      )}/${id}.${ext}`,
+      this.base
+    ).toString();
+  }
+}
+
+function createChannel(
+  ids: ChannelIdGenerator,
+  fields: {
+    name: string;
+    logo?: string;
+    tvgId?: string;
+    group: string;
+    url: string;
+    contentType: ContentType;
+    extra?: Record<string, string>;
+  }
+): M3UChannel {
+  const attributes: Record<string, string> = {};
+  if (fields.tvgId) attributes["tvg-id"] = fields.tvgId;
+  attributes["tvg-name"] = fields.name;
+  if (fields.logo) attributes["tvg-logo"] = fields.logo;
+  attributes["group-title"] = fields.group;
+  Object.assign(attributes, fields.extra);
+
+  return {
+    id: ids.next({
+      tvgId: fields.tvgId || undefined,
+      tvgName: fields.name,
+      groupTitle: fields.group,
+      url: fields.url,
+    }),
+    tvgName: fields.name,
+    tvgNameAttribute: fields.name,
+    tvgLogo: fields.logo || undefined,
+    tvgId: fields.tvgId || undefined,
+    groupTitle: fields.group,
+    attributes,
+    url: fields.url,
+    scheme: getStreamScheme(fields.url),
+    contentType: fields.contentType,
+  };
+}
+
+function categoryName(
+  categories: Map<string, string>,
+  id: string | number | null | undefined
+): string {
+  return (id != null && categories.get(String(id))) || DEFAULT_GROUP_TITLE;
+}
+
+function mapLiveStream(
+  stream: XtreamLiveStream,
+  categories: Map<string, string>,
+  client: XtreamClient,
+  ids: ChannelIdGenerator,
+  format: "ts" | "m3u8"
+): M3UChannel {
+  const extra: Record<string, string> = {};
+  if (stream.num != null) extra["tvg-chno"] = String(stream.num);
+  if (Number(stream.tv_archive) === 1) {
+    extra.catchup = "xc";
+    if (stream.tv_archive_duration) {
+      extra["catchup-days"] = String(stream.tv_archive_duration);
+    }
+  }
+
+  return createChannel(ids, {
+    name: stream.name,
+    logo: stream.stream_icon,
+    tvgId: stream.epg_channel_id || undefined,
+    group: categoryName(categories, stream.category_id),
+    url: client.streamUrl("live", String(stream.stream_id), format),
+    contentType: "live",
+    extra,
+  });
+}
+
+function mapVodStream(
+  stream: XtreamVodStream,
+  categories: Map<string, string>,
+  client: XtreamClient,
+  ids: ChannelIdGenerator
+): M3UChannel {
+  return createChannel(ids, {
+    name: stream.name,
+    logo: stream.stream_icon,
+    group: categoryName(categories, stream.category_id),
+    url: client.streamUrl(
+      "movie",
+      String(stream.stream_id),
+      stream.container_extension || "mp4"
+    ),
+    contentType: "vod",
+  });
+}
+
+/**
+ * Episodes of a series, or the error that kept them from loading. One
+ * broken series should not sink the whole import, but running out of the
+ * byte budget or a cancelled request ends it.
+ */
+async function loadSeriesEpisodes(
+  series: XtreamSeries,
+  client: XtreamClient
+): Promise<XtreamEpisode[] | Error> {
+  let info: XtreamSeriesInfo;
+  try {
+    info = await client.call<XtreamSeriesInfo>("get_series_info", {
+      series_id: String(series.series_id),
+    });
+  } catch (error) {
+    if (
+      error instanceof PlaylistTooLargeError ||
+      (error instanceof Error && error.name === "AbortError")
+    ) {
+      throw error;
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  return Array.isArray(info?.episodes)
+    ? info.episodes
+    : Object.values(info?.episodes || {}).flat();
+}
+
+function mapSeriesEpisodes(
+  series: XtreamSeries,
+  episodes: XtreamEpisode[],
+  categories: Map<string, string>,
+  client: XtreamClient,
+  ids: ChannelIdGenerator
+): M3UChannel[] {
+  const group = categoryName(categories, series.category_id);
+
+  return episodes.map((episode) => {
+    const season = String(episode.season ?? 1).padStart(2, "0");
+    const number = String(episode.episode_num ?? "").padStart(2, "0");
+    const title = episode.title || `${series.name} S${season}E${number}`;
+
+    return createChannel(ids, {
+      name: title,
+      logo: episode.info?.movie_image || series.cover,
+      group,
+      url: client.streamUrl(
+        "series",
+        String(episode.id),
+        episode.container_extension || "mp4"
+      ),
+      contentType: "series",
+    });
+  });
+}